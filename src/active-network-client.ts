@@ -1,144 +1,455 @@
-import axios, { AxiosInstance } from 'axios';
-import { Activity, ActivityDetails, SearchParams, SearchResponse } from './types/active-network.js';
+import axios, { AxiosInstance, AxiosResponse, GenericAbortSignal, InternalAxiosRequestConfig } from 'axios';
+import {
+  Activity,
+  ActivityDetails,
+  AggregatedSearchResponse,
+  FacetValue,
+  SearchParams,
+  SearchResponse
+} from './types/active-network.js';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { RateLimitOptions, TokenBucketRateLimiter } from './rate-limiter.js';
+import { buildFeeTable, extractComponents, normalizeActivity, normalizeSearchResponse } from './activity-normalizer.js';
+import { CacheKind, CacheTtls, DEFAULT_CACHE_TTLS, ResponseCache, canonicalCacheKey } from './cache.js';
+import { Cassette } from './cassette.js';
+import { currentRequestId, logger } from './logger.js';
+import {
+  cacheEntries,
+  cacheRequests,
+  metrics,
+  MetricsRegistry,
+  rateLimitQueueDepth,
+  rateLimitWait,
+  upstreamDuration,
+  upstreamRequests,
+  upstreamRetries
+} from './metrics.js';
+
+// Filled in by the client to tell callers whether a response came from cache
+export interface CacheInfo {
+  // True only when every lookup behind the call was a cache hit
+  cached?: boolean;
+  // Time the oldest of those cached responses was stored
+  cachedAt?: Date;
+  // True when any of them was past its TTL and is being refreshed in the background
+  stale?: boolean;
+}
+
+export interface RequestOptions {
+  // Aborts the in-flight request, e.g. when a background task is cancelled
+  signal?: AbortSignal;
+  // Set to false to skip the response cache and always query the API
+  cache?: boolean;
+  // Prefix for this caller's cache keys, e.g. the tool name; unscoped entries are shared
+  cacheScope?: string;
+  cacheInfo?: CacheInfo;
+}
+
+export interface DetailOptions extends RequestOptions {
+  // Adds a normalized fee table built from assetPrices (default: true)
+  includePricing?: boolean;
+  // Adds child assets as nested components (default: false)
+  includeComponents?: boolean;
+}
+
+export interface FacetQueryOptions extends RequestOptions {
+  // Drop values seen on fewer activities than this
+  minCount?: number;
+  // Keep only the most frequent values
+  limit?: number;
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface ClientOptions {
+  // AMP v2 root, e.g. a local mock server in tests (default: DEFAULT_BASE_URL)
+  baseUrl?: string;
+  rateLimit?: RateLimitOptions;
+  retry?: RetryOptions;
+  // Responses are cached per endpoint when a cache is given
+  cache?: ResponseCache;
+  cacheTtls?: CacheTtls;
+  // Records API traffic to, or replays it from, a cassette file
+  cassette?: Cassette;
+  // Per-attempt request timeout (default: DEFAULT_TIMEOUT_MS)
+  timeoutMs?: number;
+  // Version reported in the User-Agent header
+  version?: string;
+}
+
+export const DEFAULT_BASE_URL = 'https://api.amp.active.com/v2';
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+function errorMessage(error: any): string {
+  const data = error.response?.data;
+  return data?.message || (typeof data === 'string' && data) || error.message;
+}
+
+// When each request left the rate limiter, for response timings
+const requestStartTimes = new WeakMap<object, number>();
+
+function elapsed(config: object | undefined): number | undefined {
+  const start = config && requestStartTimes.get(config);
+  return start ? Date.now() - start : undefined;
+}
+
+function recordUpstream(status: string, durationMs: number | undefined): void {
+  upstreamRequests.inc({ status });
+  if (durationMs !== undefined) upstreamDuration.observe(durationMs / 1000);
+}
+
+function isOverRateLimit(status: number | undefined, message: string): boolean {
+  return status === 403 && /over (rate|qps)/i.test(message);
+}
+
+/**
+ * Applies the minCount and limit options to raw facet values, most frequent
+ * first with ties broken alphabetically.
+ */
+export function rankFacetValues(values: FacetValue[], options: FacetQueryOptions = {}): FacetValue[] {
+  const minCount = options.minCount ?? 0;
+  const ranked = values
+    .map(v => ({ value: String(v.value), count: Number(v.count) || 0 }))
+    .filter(v => v.value && v.count >= minCount)
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  return options.limit ? ranked.slice(0, options.limit) : ranked;
+}
+
+// Whether results remain upstream after the given page of a search
+export function hasNextPage(response: SearchResponse, page: number, perPage: number): boolean {
+  const pageResults = response.results?.length || 0;
+  const startIndex = typeof response.start_index === 'number' ? response.start_index : (page - 1) * perPage;
+  return pageResults > 0 && startIndex + pageResults < (response.total_results || 0);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new McpError(ErrorCode.InvalidRequest, 'Request cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new McpError(ErrorCode.InvalidRequest, 'Request cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
 export class ActiveNetworkClient {
   private client: AxiosInstance;
-  private baseUrl = 'https://api.amp.active.com/v2';
+  private baseUrl: string;
   private apiKey: string;
   private requestCount = 0;
-  private lastRequest = 0;
-  private readonly rateLimitDelay = 500; // 2 calls per second = 500ms between calls
-
-  constructor(apiKey: string) {
+  private retryCount = 0;
+  private coalescedCount = 0;
+  private refreshCount = 0;
+  // Loads in progress by cache key, so concurrent identical requests share one API call
+  private inflight = new Map<string, Promise<unknown>>();
+  private rateLimiter: TokenBucketRateLimiter;
+  private readonly retry: Required<RetryOptions>;
+  private cache?: ResponseCache;
+  private cacheTtls: CacheTtls;
+  private cassette?: Cassette;
+
+  constructor(apiKey: string, options: ClientOptions = {}) {
     if (!apiKey) {
       throw new McpError(ErrorCode.InvalidParams, 'API key is required');
     }
 
     this.apiKey = apiKey;
+    logger.addSecret(apiKey);
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.rateLimiter = new TokenBucketRateLimiter(options.rateLimit);
+    this.cache = options.cache;
+    this.cacheTtls = options.cacheTtls || DEFAULT_CACHE_TTLS;
+    this.cassette = options.cassette;
+    this.retry = {
+      maxRetries: options.retry?.maxRetries ?? 3,
+      baseDelayMs: options.retry?.baseDelayMs ?? 1000,
+      maxDelayMs: options.retry?.maxDelayMs ?? 30000
+    };
     this.client = axios.create({
       baseURL: this.baseUrl,
-      timeout: 15000,
+      timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
       headers: {
         'Content-Type': 'application/json',
-        'User-Agent': 'Active-Network-MCP-Server/1.0.0'
+        'User-Agent': options.version ? `Active-Network-MCP-Server/${options.version}` : 'Active-Network-MCP-Server'
       }
     });
 
+    if (this.cassette) {
+      this.client.defaults.adapter = this.cassette.wrap(axios.getAdapter(this.client.defaults.adapter));
+    }
+
     // Add request interceptor for rate limiting
-    this.client.interceptors.request.use(async (config) => {
-      await this.enforceRateLimit();
+    this.client.interceptors.request.use(async (config: InternalAxiosRequestConfig) => {
+      const queuedAt = Date.now();
+      await this.rateLimiter.acquire(config.signal as AbortSignal | undefined);
+      rateLimitWait.observe((Date.now() - queuedAt) / 1000);
       this.requestCount++;
+      // Ties the API request to the tool call that caused it
+      const requestId = currentRequestId();
+      if (requestId) config.headers.set('X-Request-Id', requestId);
+      requestStartTimes.set(config, Date.now());
+      logger.debug('API request', { url: `${this.baseUrl}${config.url}`, params: config.params });
       return config;
     });
 
-    // Add response interceptor for error handling
+    // Log outcomes only; bodies and headers stay out of the logs
     this.client.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        const durationMs = elapsed(response.config);
+        recordUpstream(String(response.status), durationMs);
+        logger.debug('API response', { status: response.status, durationMs });
+        return response;
+      },
       (error) => {
-        console.error('Active Network API Error:', {
-          status: error.response?.status,
-          statusText: error.response?.statusText,
-          data: error.response?.data,
-          headers: error.response?.headers
-        });
+        if (!axios.isCancel(error)) {
+          // Errors without a response (timeouts, resets) are labelled by their code
+          recordUpstream(String(error.response?.status ?? error.code ?? 'error'), elapsed(error.config));
+          logger.warn('API request failed', {
+            status: error.response?.status,
+            message: axios.isAxiosError(error) ? errorMessage(error) : String(error),
+            durationMs: elapsed(error.config)
+          });
+        }
         return Promise.reject(error);
       }
     );
   }
 
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequest;
-    
-    if (timeSinceLastRequest < this.rateLimitDelay) {
-      const waitTime = this.rateLimitDelay - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+  /**
+   * GET /search with automatic retries. Over-rate-limit 403s and 502/503/504
+   * responses are retried with exponential backoff and jitter; an over-limit
+   * response also pauses the shared rate limiter so queued calls back off too.
+   */
+  private async get(params: Record<string, any>, options: RequestOptions = {}): Promise<AxiosResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.client.get('/search', { params, signal: options.signal as GenericAbortSignal | undefined });
+      } catch (error) {
+        if (axios.isCancel(error) || !axios.isAxiosError(error) || attempt >= this.retry.maxRetries) {
+          throw error;
+        }
+
+        const status = error.response?.status;
+        const overLimit = isOverRateLimit(status, errorMessage(error));
+        if (!overLimit && !RETRYABLE_STATUSES.includes(status as number)) {
+          throw error;
+        }
+
+        const exponential = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+        const jittered = exponential / 2 + Math.random() * (exponential / 2);
+        const retryAfter = Number(error.response?.headers?.['retry-after']) * 1000;
+        const delay = Math.round(Math.max(jittered, Number.isFinite(retryAfter) ? retryAfter : 0));
+
+        this.retryCount++;
+        upstreamRetries.inc({ status: String(status) });
+        logger.warn('Retrying API request', { status, delayMs: delay, attempt: attempt + 1, maxRetries: this.retry.maxRetries });
+        if (overLimit) {
+          this.rateLimiter.pause(delay);
+        }
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Serves a response from the cache when possible, otherwise loads and stores
+   * it. Keys come from canonicalCacheKey, so equivalent requests share an entry.
+   * Stale entries are returned at once while a background load refreshes them,
+   * and concurrent loads of the same key share a single API call.
+   */
+  private async cached<T>(
+    kind: CacheKind,
+    keyParams: Record<string, any>,
+    options: RequestOptions,
+    load: (options: RequestOptions) => Promise<T>
+  ): Promise<T> {
+    const key = canonicalCacheKey(kind, keyParams, options.cacheScope);
+    const cache = options.cache === false ? undefined : this.cache;
+    const loadAndStore = (loadOptions: RequestOptions) => async () => {
+      const data = await load(loadOptions);
+      await cache?.set(key, data, this.cacheTtls[kind]);
+      return data;
+    };
+
+    const info = options.cacheInfo;
+    const hit = await cache?.get(key);
+    if (cache) {
+      cacheRequests.inc({ kind, result: !hit ? 'miss' : hit.stale ? 'stale' : 'hit' });
+    }
+    if (!hit) {
+      if (info) info.cached = false;
+      // A request the caller may abort gets a load of its own
+      return options.signal ? loadAndStore({ signal: options.signal })() : this.coalesce(key, loadAndStore({}));
+    }
+
+    if (info) {
+      info.cached = info.cached ?? true;
+      if (!info.cachedAt || hit.timestamp < info.cachedAt) info.cachedAt = hit.timestamp;
+      info.stale = info.stale || hit.stale;
+    }
+    if (hit.stale && !this.inflight.has(key)) {
+      this.refreshCount++;
+      this.coalesce(key, loadAndStore({})).catch(error => logger.warn('Background cache refresh failed', { kind, error }));
     }
+    return hit.data as T;
+  }
+
+  // Joins the load already running for key, or starts one
+  private coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const running = this.inflight.get(key);
+    if (running) {
+      this.coalescedCount++;
+      return running as Promise<T>;
+    }
+
+    const promise = load().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  // Maps API failures onto McpErrors; errors that already are McpErrors pass through
+  private toMcpError(error: unknown): unknown {
+    if (error instanceof McpError) {
+      return error;
+    }
+    if (axios.isCancel(error)) {
+      return new McpError(ErrorCode.InvalidRequest, 'Request cancelled');
+    }
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      const message = errorMessage(error);
+
+      // Handle specific API error codes
+      switch (status) {
+        case 400:
+          return new McpError(ErrorCode.InvalidParams, `Bad request: ${message}`);
+        case 403:
+          if (isOverRateLimit(status, message)) {
+            return new McpError(ErrorCode.InvalidRequest, 'API rate limit exceeded. Please try again later.');
+          }
+          if (message.includes('Not Authorized')) {
+            return new McpError(ErrorCode.InvalidParams, 'Invalid API key or unauthorized access.');
+          }
+          return new McpError(ErrorCode.InvalidRequest, `Access denied: ${message}`);
+        case 414:
+          return new McpError(ErrorCode.InvalidParams, 'Request URI too long. Please reduce the number of parameters.');
+        case 502:
+        case 503:
+        case 504:
+          return new McpError(ErrorCode.InternalError, 'Active Network API is temporarily unavailable. Please try again later.');
+        default:
+          return new McpError(
+            ErrorCode.InternalError,
+            `Active Network API error (${status}): ${message}`
+          );
+      }
+    }
+    return error;
+  }
+
+  /**
+   * Translates SearchParams into the query string sent to /search, minus the
+   * api_key. Exposed so tools can show callers exactly what was queried.
+   */
+  buildQueryParams(params: SearchParams): Record<string, any> {
+    // Build query parameters according to latest API specification
+    const queryParams: any = {
+      exclude_children: params.exclude_children !== false,
+      per_page: Math.min(params.per_page ?? 25, 50),
+      current_page: params.current_page || 1
+    };
+
+    // Location parameters (use one of these)
+    if (params.lat_lon) {
+      queryParams.lat_lon = params.lat_lon;
+    } else if (params.near) {
+      queryParams.near = params.near;
+    } else if (params.bbox) {
+      queryParams.bbox = params.bbox;
+    } else if (params.geo_points) {
+      queryParams.geo_points = params.geo_points;
+    }
+
+    // Geographic filters
+    if (params.radius !== undefined) queryParams.radius = params.radius;
+    if (params.city) queryParams.city = params.city;
+    if (params.state) queryParams.state = params.state;
+    if (params.zip) queryParams.zip = params.zip;
+    if (params.country) queryParams.country = params.country;
+
+    // Search and filter parameters
+    if (params.query) queryParams.query = params.query;
+    if (params.category) queryParams.category = params.category;
+    if (params.category_name) queryParams.category_name = params.category_name;
+    if (params.topic) queryParams.topic = params.topic;
+    if (params.topic_name) queryParams.topic_name = params.topic_name;
     
-    this.lastRequest = Date.now();
+    // Date filters
+    if (params.start_date) queryParams.start_date = params.start_date;
+    if (params.end_date) queryParams.end_date = params.end_date;
+
+    // Special filters
+    if (params.kids === true) queryParams.kids = 'true';
+    if (params.registerable_only === true) queryParams.registerable_only = 'true';
+    if (params.meta_interest) queryParams.meta_interest = params.meta_interest;
+    if (params.meta_interest_name) queryParams.meta_interest_name = params.meta_interest_name;
+
+    // Advanced filters
+    if (params.attributes) queryParams.attributes = params.attributes;
+    if (params.tags) queryParams.tags = params.tags;
+    if (params.exists) queryParams.exists = params.exists;
+    if (params.not_exists) queryParams.not_exists = params.not_exists;
+
+    // Sorting and pagination
+    if (params.sort) queryParams.sort = params.sort;
+    if (params.show_distance === true) queryParams.show_distance = 'true';
+
+    // Facets and aggregation
+    if (params.facets) queryParams.facets = params.facets;
+    if (params.facet_values) queryParams.facet_values = params.facet_values;
+
+    // Asset-specific searches
+    if (params.asset_name) queryParams.asset_name = params.asset_name;
+    if (params.org_id) queryParams.org_id = params.org_id;
+    if (params.place_id) queryParams.place_id = params.place_id;
+    if (params.source_system_id) queryParams.source_system_id = params.source_system_id;
+    if (params.source_system_name) queryParams.source_system_name = params.source_system_name;
+
+    // Response customization
+    if (params.fields) queryParams.fields = params.fields;
+    if (params.show_suggest === true) queryParams.show_suggest = 'true';
+    if (params.search_again === true) queryParams.search_again = 'true';
+    if (params.cb) queryParams.cb = params.cb; // JSONP callback
+
+    return queryParams;
+  }
+
+  async searchActivities(params: SearchParams, options: RequestOptions = {}): Promise<SearchResponse> {
+    return this.cached('search', this.buildQueryParams(params), options, loadOptions => this.fetchSearch(params, loadOptions));
   }
 
-  async searchActivities(params: SearchParams): Promise<SearchResponse> {
+  private async fetchSearch(params: SearchParams, options: RequestOptions): Promise<SearchResponse> {
     try {
-      // Build query parameters according to latest API specification
       const queryParams: any = {
         api_key: this.apiKey,
-        exclude_children: params.exclude_children !== false,
-        per_page: Math.min(params.per_page || 25, 50),
-        current_page: params.current_page || 1
+        ...this.buildQueryParams(params)
       };
 
-      // Location parameters (use one of these)
-      if (params.lat_lon) {
-        queryParams.lat_lon = params.lat_lon;
-      } else if (params.near) {
-        queryParams.near = params.near;
-      } else if (params.bbox) {
-        queryParams.bbox = params.bbox;
-      } else if (params.geo_points) {
-        queryParams.geo_points = params.geo_points;
-      }
-
-      // Geographic filters
-      if (params.radius !== undefined) queryParams.radius = params.radius;
-      if (params.city) queryParams.city = params.city;
-      if (params.state) queryParams.state = params.state;
-      if (params.zip) queryParams.zip = params.zip;
-      if (params.country) queryParams.country = params.country;
-
-      // Search and filter parameters
-      if (params.query) queryParams.query = params.query;
-      if (params.category) queryParams.category = params.category;
-      if (params.category_name) queryParams.category_name = params.category_name;
-      if (params.topic) queryParams.topic = params.topic;
-      if (params.topic_name) queryParams.topic_name = params.topic_name;
-      
-      // Date filters
-      if (params.start_date) queryParams.start_date = params.start_date;
-      if (params.end_date) queryParams.end_date = params.end_date;
-
-      // Special filters
-      if (params.kids === true) queryParams.kids = 'true';
-      if (params.registerable_only === true) queryParams.registerable_only = 'true';
-      if (params.meta_interest) queryParams.meta_interest = params.meta_interest;
-      if (params.meta_interest_name) queryParams.meta_interest_name = params.meta_interest_name;
-
-      // Advanced filters
-      if (params.attributes) queryParams.attributes = params.attributes;
-      if (params.tags) queryParams.tags = params.tags;
-      if (params.exists) queryParams.exists = params.exists;
-      if (params.not_exists) queryParams.not_exists = params.not_exists;
-
-      // Sorting and pagination
-      if (params.sort) queryParams.sort = params.sort;
-      if (params.show_distance === true) queryParams.show_distance = 'true';
-
-      // Facets and aggregation
-      if (params.facets) queryParams.facets = params.facets;
-      if (params.facet_values) queryParams.facet_values = params.facet_values;
-
-      // Asset-specific searches
-      if (params.asset_name) queryParams.asset_name = params.asset_name;
-      if (params.org_id) queryParams.org_id = params.org_id;
-      if (params.place_id) queryParams.place_id = params.place_id;
-      if (params.source_system_id) queryParams.source_system_id = params.source_system_id;
-      if (params.source_system_name) queryParams.source_system_name = params.source_system_name;
-
-      // Response customization
-      if (params.fields) queryParams.fields = params.fields;
-      if (params.show_suggest === true) queryParams.show_suggest = 'true';
-      if (params.search_again === true) queryParams.search_again = 'true';
-      if (params.cb) queryParams.cb = params.cb; // JSONP callback
-
-      console.error('Active Network API Request:', {
-        url: `${this.baseUrl}/search`,
-        params: queryParams
-      });
-
-      const response = await this.client.get('/search', { params: queryParams });
-
-      console.error('Active Network API Response Status:', response.status);
+      const response = await this.get(queryParams, options);
 
       if (!response.data) {
         throw new McpError(
@@ -153,174 +464,180 @@ export class ActiveNetworkClient {
       // Ensure we have a consistent response format
       if (!data.results && Array.isArray(data)) {
         // Old format - convert to new format
-        return {
+        return normalizeSearchResponse({
           total_results: data.length,
           items_per_page: queryParams.per_page,
           start_index: ((queryParams.current_page - 1) * queryParams.per_page),
           results: data,
           facets: {},
           suggestions: []
-        };
+        });
       }
 
-      return data;
+      return normalizeSearchResponse(data);
     } catch (error) {
-      console.error('Error in searchActivities:', error);
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const message = error.response?.data?.message || error.message;
-        
-        // Handle specific API error codes
-        switch (status) {
-          case 400:
-            throw new McpError(ErrorCode.InvalidParams, `Bad request: ${message}`);
-          case 403:
-            if (message.includes('Over Rate Limit')) {
-              throw new McpError(ErrorCode.InvalidRequest, 'API rate limit exceeded. Please try again later.');
-            }
-            if (message.includes('Not Authorized')) {
-              throw new McpError(ErrorCode.InvalidParams, 'Invalid API key or unauthorized access.');
-            }
-            throw new McpError(ErrorCode.InvalidRequest, `Access denied: ${message}`);
-          case 414:
-            throw new McpError(ErrorCode.InvalidParams, 'Request URI too long. Please reduce the number of parameters.');
-          case 502:
-          case 503:
-          case 504:
-            throw new McpError(ErrorCode.InternalError, 'Active Network API is temporarily unavailable. Please try again later.');
-          default:
-            throw new McpError(
-              ErrorCode.InternalError,
-              `Active Network API error (${status}): ${message}`
-            );
-        }
-      }
-      throw error;
+      throw this.toMcpError(error);
     }
   }
-  async getActivityDetails(activityId: string): Promise<ActivityDetails> {
-    try {
-      const response = await this.client.get('/search', {
-        params: {
-          'asset.assetGuid': activityId,
-          api_key: this.apiKey,
-          exclude_children: false // Include children for full details
-        }
-      });
 
-      if (!response.data.results?.[0]) {
-        throw new McpError(ErrorCode.InvalidRequest, 'Activity not found');
-      }
+  /**
+   * Yields successive result pages, following total_results/start_index until
+   * the result set is exhausted. Every page goes through the rate limiter.
+   */
+  async *iterateSearchPages(params: SearchParams, options: RequestOptions = {}): AsyncGenerator<SearchResponse> {
+    const perPage = Math.min(params.per_page || 50, 50);
+    let page = params.current_page || 1;
 
-      return response.data.results[0];
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const message = error.response?.data?.message || error.message;
-        
-        if (status === 404) {
-          throw new McpError(ErrorCode.InvalidRequest, 'Activity not found');
-        }
-        
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Failed to get activity details: ${message}`
-        );
+    while (true) {
+      const response = await this.searchActivities({ ...params, per_page: perPage, current_page: page }, options);
+      yield response;
+
+      if (!hasNextPage(response, page, perPage)) {
+        return;
       }
-      throw error;
+      page++;
     }
   }
 
-  async getCategories(): Promise<string[]> {
-    try {
-      const response = await this.client.get('/search', {
-        params: {
-          facets: 'categoryName',
-          per_page: 0,
-          api_key: this.apiKey
+  // Collects pages into one result set of at most maxResults unique activities
+  async searchAll(params: SearchParams, maxResults: number, options: RequestOptions = {}): Promise<AggregatedSearchResponse> {
+    const seen = new Set<string>();
+    const results: Activity[] = [];
+    let totalResults = 0;
+    let pagesFetched = 0;
+    let duplicatesRemoved = 0;
+    let truncated = false;
+    let facets: SearchResponse['facets'];
+
+    for await (const page of this.iterateSearchPages(params, options)) {
+      pagesFetched++;
+      totalResults = page.total_results || 0;
+      facets = facets || page.facets;
+
+      for (const activity of page.results || []) {
+        if (activity.assetGuid && seen.has(activity.assetGuid)) {
+          duplicatesRemoved++;
+          continue;
+        }
+        if (results.length >= maxResults) {
+          truncated = true;
+          break;
         }
-      });
+        if (activity.assetGuid) seen.add(activity.assetGuid);
+        results.push(activity);
+      }
 
-      const categories = response.data.facets?.categoryName?.values?.map((v: any) => v.value) || [];
-      return categories.sort();
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const message = error.response?.data?.message || error.message;
-        
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Failed to get categories: ${message}`
-        );
+      if (truncated) break;
+      if (results.length >= maxResults) {
+        // The cap was hit exactly at a page boundary; more may remain upstream
+        const startIndex = typeof page.start_index === 'number' ? page.start_index : 0;
+        truncated = startIndex + (page.results?.length || 0) < totalResults;
+        break;
       }
-      throw error;
     }
+
+    return {
+      total_results: totalResults,
+      items_per_page: results.length,
+      start_index: 0,
+      results,
+      facets,
+      pages_fetched: pagesFetched,
+      duplicates_removed: duplicatesRemoved,
+      truncated
+    };
   }
 
-  async getLocations(): Promise<string[]> {
-    try {
-      const response = await this.client.get('/search', {
-        params: {
-          facets: 'place.cityName',
-          per_page: 0,
-          api_key: this.apiKey
-        }
-      });
+  async getActivityDetails(activityId: string, options: DetailOptions = {}): Promise<ActivityDetails> {
+    const includePricing = options.includePricing !== false;
+    const includeComponents = options.includeComponents === true;
 
-      const locations = response.data.facets?.['place.cityName']?.values?.map((v: any) => v.value) || [];
-      return locations.sort();
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const message = error.response?.data?.message || error.message;
-        
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Failed to get locations: ${message}`
-        );
-      }
-      throw error;
-    }
+    return this.cached(
+      'details',
+      { activityId, includePricing, includeComponents },
+      options,
+      loadOptions => this.fetchDetails(activityId, includePricing, includeComponents, loadOptions)
+    );
   }
 
-  async getTopics(): Promise<string[]> {
+  private async fetchDetails(
+    activityId: string,
+    includePricing: boolean,
+    includeComponents: boolean,
+    options: RequestOptions
+  ): Promise<ActivityDetails> {
     try {
-      const response = await this.client.get('/search', {
-        params: {
-          facets: 'topicName',
-          per_page: 0,
-          api_key: this.apiKey
-        }
-      });
+      const response = await this.get({
+        'asset.assetGuid': activityId,
+        api_key: this.apiKey,
+        exclude_children: !includeComponents
+      }, options);
+
+      if (!response.data.results?.[0]) {
+        throw new McpError(ErrorCode.InvalidRequest, 'Activity not found');
+      }
+
+      const { activity: normalized, issues } = normalizeActivity(response.data.results[0]);
+      const { assetPrices, assetComponents, assetChildren, ...activity } = normalized;
+      const details: ActivityDetails = activity;
+      if (issues.length > 0) {
+        details.validation_issues = issues;
+      }
 
-      const topics = response.data.facets?.topicName?.values?.map((v: any) => v.value) || [];
-      return topics.sort();
+      if (includePricing) {
+        details.assetPrices = assetPrices;
+        details.fees = buildFeeTable(assetPrices);
+      }
+      if (includeComponents) {
+        details.components = extractComponents({ assetComponents, assetChildren }, includePricing);
+      }
+
+      return details;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const message = error.response?.data?.message || error.message;
-        
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Failed to get topics: ${message}`
-        );
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new McpError(ErrorCode.InvalidRequest, 'Activity not found');
       }
-      throw error;
+      throw this.toMcpError(error);
     }
   }
 
-  // Utility method to get comprehensive facet data
-  async getFacets(facetTypes: string[]): Promise<Record<string, Array<{value: string, count: number}>>> {
+  async getCategories(filters: SearchParams = {}, options: FacetQueryOptions = {}): Promise<FacetValue[]> {
+    return this.getFacetValues('categoryName', filters, options);
+  }
+
+  async getLocations(filters: SearchParams = {}, options: FacetQueryOptions = {}): Promise<FacetValue[]> {
+    return this.getFacetValues('place.cityName', filters, options);
+  }
+
+  async getTopics(filters: SearchParams = {}, options: FacetQueryOptions = {}): Promise<FacetValue[]> {
+    return this.getFacetValues('topicName', filters, options);
+  }
+
+  // Values of a single facet under the given filters, most frequent first
+  async getFacetValues(facetType: string, filters: SearchParams = {}, options: FacetQueryOptions = {}): Promise<FacetValue[]> {
+    const facets = await this.getFacets([facetType], filters, options);
+    return rankFacetValues(facets[facetType] || [], options);
+  }
+
+  // Utility method to get comprehensive facet data, optionally scoped by search filters
+  async getFacets(facetTypes: string[], filters: SearchParams = {}, options: RequestOptions = {}): Promise<Record<string, FacetValue[]>> {
+    const queryParams = {
+      ...this.buildQueryParams({ ...filters, per_page: 0, current_page: 1 }),
+      facets: facetTypes.join(',')
+    };
+    const keyParams = { ...queryParams, facets: [...facetTypes].sort() };
+    return this.cached('facets', keyParams, options, loadOptions => this.fetchFacets(facetTypes, queryParams, loadOptions));
+  }
+
+  private async fetchFacets(
+    facetTypes: string[],
+    queryParams: Record<string, any>,
+    options: RequestOptions
+  ): Promise<Record<string, FacetValue[]>> {
     try {
-      const response = await this.client.get('/search', {
-        params: {
-          facets: facetTypes.join(','),
-          per_page: 0,
-          api_key: this.apiKey
-        }
-      });
+      const response = await this.get({ ...queryParams, api_key: this.apiKey }, options);
 
-      const facets: Record<string, Array<{value: string, count: number}>> = {};
+      const facets: Record<string, FacetValue[]> = {};
       
       if (response.data.facets) {
         for (const facetType of facetTypes) {
@@ -330,26 +647,34 @@ export class ActiveNetworkClient {
 
       return facets;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const message = error.response?.data?.message || error.message;
-        
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Failed to get facets: ${message}`
-        );
-      }
-      throw error;
+      throw this.toMcpError(error);
     }
   }
 
+  /**
+   * Reports this client's rate limiter queue and cache size on each metrics
+   * render. The gauges are unlabelled, so only one client should be
+   * registered at a time; returns a function that removes the collector.
+   */
+  registerMetrics(registry: MetricsRegistry = metrics): () => void {
+    return registry.addCollector(() => {
+      rateLimitQueueDepth.set(this.rateLimiter.getStats().queueDepth);
+      if (this.cache) cacheEntries.set(this.cache.stats().entries);
+    });
+  }
+
   // Get API usage statistics
   getUsageStats() {
     return {
       requestCount: this.requestCount,
-      rateLimitDelay: this.rateLimitDelay,
-      lastRequest: this.lastRequest,
-      baseUrl: this.baseUrl
+      retryCount: this.retryCount,
+      coalescedRequests: this.coalescedCount,
+      backgroundRefreshes: this.refreshCount,
+      rateLimit: this.rateLimiter.getStats(),
+      baseUrl: this.baseUrl,
+      ...(this.cassette && {
+        cassette: { mode: this.cassette.mode, file: this.cassette.filePath, interactions: this.cassette.size }
+      })
     };
   }
 }
@@ -1,82 +1,210 @@
 #!/usr/bin/env node
+import http from 'node:http';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequest,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
   McpError,
-  ErrorCode
+  ErrorCode,
+  Resource
 } from '@modelcontextprotocol/sdk/types.js';
-import { ActiveNetworkClient } from '../active-network-client.js';
-import { SearchParams } from '../types/active-network.js';
+import { ActiveNetworkClient, CacheInfo, FacetQueryOptions } from '../active-network-client.js';
+import { MAX_WATCHED_RESULTS, MonitorScheduler, ScheduledTask } from '../monitor-scheduler.js';
+import { BackgroundTask, BackgroundTaskRunner, TaskContext, throwIfCancelled } from '../task-runner.js';
+import { CURRENT_SCHEMA_VERSION, DEFAULT_USER_ID, MemoryStore, StateStore, createStateStore } from '../storage.js';
+import { ResponseCache, createResponseCache, matchCacheKeys } from '../cache.js';
+import { Cassette, createCassette } from '../cassette.js';
+import { LoadedConfig, loadConfig, redactConfig, SERVER_VERSION, ServerConfig } from '../config.js';
+import { logger, withRequestContext } from '../logger.js';
+import { metrics, PROMETHEUS_CONTENT_TYPE, recordToolCall, serveMetrics } from '../metrics.js';
+import { formatActivityDetails, formatSearchResponse, parseFormat, RESPONSE_FORMATS } from '../response-formatter.js';
+import { buildPostFilters, PostFilterCriteria, searchWithPostFilters } from '../result-filters.js';
+import { buildAdvancedQuery } from '../query-builder.js';
+import { exploreFacets, FACET_NAMES, parseFacetNames } from '../facet-explorer.js';
+import { matchResourceTemplate, RESOURCE_TEMPLATES, templateUri } from '../resource-templates.js';
+import { SavedSearchManager } from '../saved-searches.js';
+import { authenticateUser, McpHttpServer, parseTransportConfig, parseUserTokens, TransportConfig } from '../http-transport.js';
+import { Activity, ActivityDetails, FacetValue, SavedSearch, SearchHistoryEntry, SearchParams, UserPreferences } from '../types/active-network.js';
+
+// Fixed resources; parameterized ones are listed under resource templates
+const STATIC_RESOURCES: Resource[] = [
+  {
+    uri: 'active://search-history',
+    name: 'Search History',
+    description: 'Recent activity searches and analytics',
+    mimeType: 'application/json'
+  },
+  {
+    uri: 'active://preferences',
+    name: 'User Preferences',
+    description: 'User search preferences and settings',
+    mimeType: 'application/json'
+  },
+  {
+    uri: 'active://cache-stats',
+    name: 'Cache Statistics',
+    description: 'Cache performance and statistics',
+    mimeType: 'application/json'
+  },
+  {
+    uri: 'active://task-status',
+    name: 'Task Status',
+    description: 'Background task status and results',
+    mimeType: 'application/json'
+  },
+  {
+    uri: 'active://api-stats',
+    name: 'API Statistics',
+    description: 'API usage statistics and health',
+    mimeType: 'application/json'
+  },
+  {
+    uri: 'active://metrics',
+    name: 'Metrics',
+    description: 'Tool, upstream API, rate limiter and cache metrics in Prometheus text format',
+    mimeType: PROMETHEUS_CONTENT_TYPE
+  },
+  {
+    uri: 'active://categories',
+    name: 'Activity Categories',
+    description: 'All available activity categories with metadata',
+    mimeType: 'application/json'
+  },
+  {
+    uri: 'active://topics',
+    name: 'Activity Topics',
+    description: 'All available activity topics with metadata',
+    mimeType: 'application/json'
+  },
+  {
+    uri: 'active://sessions',
+    name: 'Active Sessions',
+    description: 'Connected client sessions and their users (admin)',
+    mimeType: 'application/json'
+  }
+];
+
+// Preferences and history belong to a user; the cache and saved searches are shared
+interface UserContext {
+  userId: string;
+  preferences: UserPreferences;
+  recentSearches: SearchHistoryEntry[];
+  // Named users are persisted; anonymous HTTP sessions are dropped on disconnect
+  persistent: boolean;
+}
+
+// Cache keys each tool reads, for clear_cache's tool option. The search tools
+// and explore_facets scope their keys by tool name; the single-facet tools are
+// told apart by the facet they request.
+const TOOL_CACHE_PATTERNS: Record<string, string> = {
+  search_activities: 'search:search_activities:*',
+  advanced_search: 'search:advanced_search:*',
+  get_activity_details: 'details:*',
+  get_categories: 'facets:{*"facets":["categoryName"]*',
+  get_locations: 'facets:{*"facets":["place.cityName"]*',
+  get_topics: 'facets:{*"facets":["topicName"]*',
+  explore_facets: 'facets:explore_facets:*'
+};
+
+// search_activities arguments passed to the API as given; the rest are either
+// defaulted from preferences or only steer the tool (use_cache, fetch_all, ...)
+const SEARCH_ACTIVITIES_PARAMS: Array<keyof SearchParams> = [
+  'query', 'lat_lon', 'category', 'topic', 'start_date', 'end_date', 'kids', 'sort'
+];
 
 interface SearchContext {
-  recentSearches: Array<{
-    query: SearchParams;
-    timestamp: Date;
-    resultCount: number;
-  }>;
-  preferences: {
-    defaultLocation?: string;
-    defaultRadius?: number;
-    favoriteCategories?: string[];
-    excludeChildren?: boolean;
-  };
-  cache: Map<string, { data: any; timestamp: Date; ttl: number }>;
+  users: Map<string, UserContext>;
+  cache: ResponseCache;
+  savedSearches: Map<string, SavedSearch>;
 }
 
 interface TaskManager {
-  backgroundTasks: Map<string, {
-    id: string;
-    type: string;
-    status: 'running' | 'completed' | 'failed';
-    progress: number;
-    result?: any;
-    error?: string;
-    startTime: Date;
-    endTime?: Date;
-  }>;
-  scheduledTasks: Array<{
-    id: string;
-    type: string;
-    schedule: string;
-    lastRun?: Date;
-    nextRun: Date;
-    params: any;
-  }>;
+  backgroundTasks: Map<string, BackgroundTask>;
+  scheduledTasks: ScheduledTask[];
+}
+
+// One connected MCP client; stdio has a single session, HTTP one per SSE stream
+interface ClientSession {
+  id: string;
+  server: Server;
+  transport: 'stdio' | 'sse';
+  user: UserContext;
+  subscriptions: Set<string>;
+  connectedAt: Date;
 }
 
 class ActiveNetworkServer {
-  private server: Server;
+  private sessions = new Map<string, ClientSession>();
+  private httpServer?: McpHttpServer;
+  // Standalone /metrics listener, when metrics.port is configured
+  private metricsServer?: http.Server;
+  private unregisterMetrics: () => void;
+  private shuttingDown = false;
   private client: ActiveNetworkClient;
   private context: SearchContext;
   private taskManager: TaskManager;
+  private scheduler: MonitorScheduler;
+  private taskRunner: BackgroundTaskRunner;
+  private savedSearches: SavedSearchManager;
+  private store: StateStore;
+  private saveTimer?: NodeJS.Timeout;
+  private config: ServerConfig;
+  private cassette?: Cassette;
+  // Users allowed to read active://sessions
+  private adminUsers: Set<string>;
+  // Bearer token to user id, for HTTP connections
+  private userTokens: Map<string, string>;
   private startTime: Date;
 
-  constructor() {
-    const apiKey = process.env.ACTIVE_NETWORK_API_KEY;
+  constructor(private loadedConfig: LoadedConfig) {
+    this.config = loadedConfig.config;
+    logger.configure(this.config.logging);
+    this.cassette = createCassette(this.config.cassette);
+    // Replaying a cassette never reaches the API, so no key is needed
+    const apiKey = this.config.apiKey || (this.cassette?.mode === 'replay' ? 'replay' : undefined);
     if (!apiKey) {
-      throw new McpError(ErrorCode.InvalidParams, 'ACTIVE_NETWORK_API_KEY environment variable is required');
+      throw new McpError(ErrorCode.InvalidParams, 'An API key is required: set ACTIVE_NETWORK_API_KEY or apiKey in the config file');
     }
 
-    this.client = new ActiveNetworkClient(apiKey);
+    const cache = createResponseCache(this.config.cache);
+    // A durable cache persists itself; the memory cache is only written out
+    // with the rest of the state, not on every change
+    cache.onChange(() => this.notifyResourceUpdated('active://cache-stats'));
+
+    this.client = new ActiveNetworkClient(apiKey, {
+      baseUrl: this.config.baseUrl,
+      cassette: this.cassette,
+      cache,
+      cacheTtls: this.config.cache.ttls,
+      rateLimit: this.config.rateLimit,
+      retry: this.config.retry,
+      timeoutMs: this.config.requestTimeoutMs,
+      version: SERVER_VERSION
+    });
+    this.unregisterMetrics = this.client.registerMetrics();
+    this.store = createStateStore(this.config.storage);
     this.startTime = new Date();
+
+    this.adminUsers = new Set(this.config.adminUsers);
+    this.userTokens = parseUserTokens(this.config.userTokens);
     
     // Initialize context management
     this.context = {
-      recentSearches: [],
-      preferences: {
-        defaultLocation: 'Vancouver,BC,CA',
-        defaultRadius: 25,
-        favoriteCategories: [],
-        excludeChildren: true
-      },
-      cache: new Map()
+      users: new Map(),
+      cache,
+      savedSearches: new Map()
     };
+    this.savedSearches = new SavedSearchManager(this.context.savedSearches);
 
     // Initialize task management
     this.taskManager = {
@@ -84,32 +212,139 @@ class ActiveNetworkServer {
       scheduledTasks: []
     };
 
-    this.server = new Server(
+    this.taskRunner = new BackgroundTaskRunner(this.taskManager.backgroundTasks);
+    this.taskRunner.onStatusChange(() => this.notifyResourceUpdated('active://task-status'));
+    this.scheduler = new MonitorScheduler(this.client, this.taskManager.scheduledTasks);
+    this.scheduler.onChange((task, run) => {
+      if (task.params.notify_on_changes) {
+        logger.info('Monitor results changed', {
+          monitor: task.id,
+          added: run.newGuids.length,
+          removed: run.removedGuids.length,
+          changed: run.changedGuids.length
+        });
+      }
+      this.notifyResourceUpdated('active://task-status', templateUri('search', task.id));
+    });
+
+    process.on('SIGINT', () => this.shutdown('SIGINT'));
+    process.on('SIGTERM', () => this.shutdown('SIGTERM'));
+  }
+
+  private createSession(id: string, transport: ClientSession['transport'], userId?: string): ClientSession {
+    const server = new Server(
       {
         name: 'active-network-server',
-        version: '1.0.0',
+        version: SERVER_VERSION,
       },
       {
         capabilities: {
           tools: {},
-          resources: {},
+          resources: {
+            subscribe: true,
+            listChanged: true
+          },
           prompts: {},
         },
       }
     );
+    const session: ClientSession = {
+      id,
+      server,
+      transport,
+      user: userId ? this.userContext(userId, true) : this.userContext(`session:${id}`, false),
+      subscriptions: new Set(),
+      connectedAt: new Date()
+    };
 
-    this.setupToolHandlers();
-    this.setupResourceHandlers();
-    this.setupPromptHandlers();
-    
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    this.setupToolHandlers(session);
+    this.setupResourceHandlers(session);
+    this.setupPromptHandlers(session);
+
+    server.onerror = (error) => logger.error('MCP error', { sessionId: id, error });
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Runs a request handler inside its own request context, so every log entry
+   * and API call it makes shares one correlation id, and logs how it ended.
+   * Tool calls are also recorded in the latency and error metrics.
+   */
+  private traced<Req, Res>(
+    session: ClientSession,
+    describe: (request: Req) => Record<string, string>,
+    handler: (request: Req) => Promise<Res>
+  ): (request: Req) => Promise<Res> {
+    return (request) => {
+      const fields = describe(request);
+      return withRequestContext({ sessionId: session.id, ...fields }, async () => {
+        const startedAt = Date.now();
+        try {
+          const result = await handler(request);
+          const durationMs = Date.now() - startedAt;
+          if (fields.tool) recordToolCall(fields.tool, durationMs);
+          logger.info('Request completed', { durationMs });
+          return result;
+        } catch (error) {
+          const durationMs = Date.now() - startedAt;
+          if (fields.tool) recordToolCall(fields.tool, durationMs, error);
+          logger.warn('Request failed', { durationMs, error });
+          throw error;
+        }
+      });
+    };
+  }
+
+  private async closeSession(session: ClientSession): Promise<void> {
+    this.sessions.delete(session.id);
+    const userStillConnected = Array.from(this.sessions.values()).some(s => s.user === session.user);
+    if (!session.user.persistent && !userStillConnected) {
+      this.context.users.delete(session.user.userId);
+    }
+    await session.server.close();
+  }
+
+  private userContext(userId: string, persistent: boolean): UserContext {
+    let user = this.context.users.get(userId);
+    if (!user) {
+      user = { userId, preferences: this.defaultPreferences(), recentSearches: [], persistent };
+      this.context.users.set(userId, user);
+    }
+    return user;
+  }
+
+  private defaultPreferences(): UserPreferences {
+    return {
+      defaultLocation: this.config.defaults.location,
+      defaultRadius: this.config.defaults.radius,
+      favoriteCategories: [],
+      excludeChildren: true
+    };
   }
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+
+  /**
+   * Stops monitors and background tasks, closes every client session and the
+   * HTTP listener, and flushes persisted state before exiting.
+   */
+  private async shutdown(reason: string): Promise<void> {
+    if (this.shuttingDown) return;
+    this.shuttingDown = true;
+    logger.info('Shutting down', { reason });
+
+    this.scheduler.stopAll();
+    this.taskRunner.cancelAll();
+    await this.httpServer?.close();
+    this.metricsServer?.close();
+    this.unregisterMetrics();
+    await Promise.allSettled(Array.from(this.sessions.values(), session => this.closeSession(session)));
+    await this.flushState();
+    await this.cassette?.flush();
+    process.exit(0);
+  }
+
+  private setupToolHandlers(session: ClientSession) {
+    session.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: 'search_activities',
@@ -179,6 +414,21 @@ class ActiveNetworkServer {
               use_cache: {
                 type: 'boolean',
                 description: 'Use cached results if available (default: true)'
+              },
+              fetch_all: {
+                type: 'boolean',
+                description: 'Follow pagination in pages of 50 and return all results up to max_results as one merged, de-duplicated set'
+              },
+              max_results: {
+                type: 'number',
+                description: 'Maximum results to collect when fetch_all is true (default: 200, max: 1000)',
+                minimum: 1,
+                maximum: 1000
+              },
+              format: {
+                type: 'string',
+                enum: RESPONSE_FORMATS,
+                description: 'Response format: summary (name, date, place, price, URL, guid), markdown table, or full payload (default: summary)'
               }
             }
           }
@@ -195,11 +445,16 @@ class ActiveNetworkServer {
               },
               include_pricing: {
                 type: 'boolean',
-                description: 'Include pricing information (default: true)'
+                description: 'Include a normalized fee table built from assetPrices (default: true)'
               },
               include_components: {
                 type: 'boolean',
-                description: 'Include child components (default: false)'
+                description: 'Include child assets such as sessions, race distances and divisions, with their own dates and prices (default: false)'
+              },
+              format: {
+                type: 'string',
+                enum: RESPONSE_FORMATS,
+                description: 'Response format: summary, markdown, or full payload (default: full)'
               }
             },
             required: ['activityId']
@@ -207,24 +462,40 @@ class ActiveNetworkServer {
         },
         {
           name: 'get_categories',
-          description: 'Get list of available activity categories with counts',
+          description: 'Get activity categories with counts, optionally scoped to a location',
           inputSchema: {
             type: 'object',
             properties: {
               location: {
                 type: 'string',
-                description: 'Filter categories by location'
+                description: 'Only count activities near this location, e.g. "Austin,TX,US"'
+              },
+              radius: {
+                type: 'number',
+                description: 'Radius in miles around location (default: preference defaultRadius)',
+                minimum: 1,
+                maximum: 100
               },
               include_counts: {
                 type: 'boolean',
-                description: 'Include activity counts per category (default: true)'
+                description: 'Return {value, count} pairs sorted by count (default: true)'
+              },
+              min_count: {
+                type: 'number',
+                description: 'Drop values with fewer matching activities',
+                minimum: 0
+              },
+              limit: {
+                type: 'number',
+                description: 'Return only the most frequent values',
+                minimum: 1
               }
             }
           }
         },
         {
           name: 'get_locations',
-          description: 'Get list of available locations with activity counts',
+          description: 'Get cities with activity counts, optionally scoped to a state/province, country or area',
           inputSchema: {
             type: 'object',
             properties: {
@@ -234,18 +505,38 @@ class ActiveNetworkServer {
               },
               country: {
                 type: 'string',
-                description: 'Filter by country (default: US)'
+                description: 'Filter by country'
+              },
+              location: {
+                type: 'string',
+                description: 'Only count activities near this location'
+              },
+              radius: {
+                type: 'number',
+                description: 'Radius in miles around location (default: preference defaultRadius)',
+                minimum: 1,
+                maximum: 100
               },
               include_counts: {
                 type: 'boolean',
-                description: 'Include activity counts per location (default: true)'
+                description: 'Return {value, count} pairs sorted by count (default: true)'
+              },
+              min_count: {
+                type: 'number',
+                description: 'Drop values with fewer matching activities',
+                minimum: 0
+              },
+              limit: {
+                type: 'number',
+                description: 'Return only the most frequent values',
+                minimum: 1
               }
             }
           }
         },
         {
           name: 'get_topics',
-          description: 'Get list of available activity topics',
+          description: 'Get activity topics with counts, optionally scoped to a category or location',
           inputSchema: {
             type: 'object',
             properties: {
@@ -253,19 +544,132 @@ class ActiveNetworkServer {
                 type: 'string',
                 description: 'Filter topics by category'
               },
+              location: {
+                type: 'string',
+                description: 'Only count activities near this location'
+              },
+              radius: {
+                type: 'number',
+                description: 'Radius in miles around location (default: preference defaultRadius)',
+                minimum: 1,
+                maximum: 100
+              },
               include_counts: {
                 type: 'boolean',
-                description: 'Include activity counts per topic (default: true)'
+                description: 'Return {value, count} pairs sorted by count (default: true)'
+              },
+              min_count: {
+                type: 'number',
+                description: 'Drop values with fewer matching activities',
+                minimum: 0
+              },
+              limit: {
+                type: 'number',
+                description: 'Return only the most frequent values',
+                minimum: 1
               }
             }
           }
         },
+        {
+          name: 'explore_facets',
+          description: 'Count several facets at once under the same filters, with ready-to-use filters for drilling further down',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              facets: {
+                type: 'array',
+                items: { type: 'string', enum: FACET_NAMES },
+                description: 'Facets to count, e.g. ["topic", "city", "month"]'
+              },
+              filters: {
+                type: 'object',
+                description: 'Search filters to count under, using search_activities parameter names (e.g. {"near": "Seattle,WA,US", "topic_name": "Running"})'
+              },
+              min_count: {
+                type: 'number',
+                description: 'Drop values with fewer matching activities',
+                minimum: 0
+              },
+              limit: {
+                type: 'number',
+                description: 'Return only the most frequent values of each facet (default: 10)',
+                minimum: 1
+              },
+              suggestions_per_facet: {
+                type: 'number',
+                description: 'Follow-up filter suggestions to offer per facet (default: 3)',
+                minimum: 0
+              }
+            },
+            required: ['facets']
+          }
+        },
         {
           name: 'advanced_search',
-          description: 'Advanced search with multiple criteria and filters',
+          description: 'Advanced search query builder: free text, topics/categories combined with AND/OR, date windows, geo modes, attribute/tag filters and field existence checks. Returns the exact query sent to the API.',
           inputSchema: {
             type: 'object',
             properties: {
+              query: {
+                type: 'string',
+                description: 'Free-text search terms'
+              },
+              topics: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Topic names (e.g. ["Running", "Triathlon"])'
+              },
+              categories: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Category names'
+              },
+              combine: {
+                type: 'string',
+                enum: ['AND', 'OR'],
+                description: 'How multiple topics, categories, attributes and tags combine (default: OR)'
+              },
+              date_window: {
+                type: 'object',
+                description: 'Activity start date window; either end may be omitted',
+                properties: {
+                  start: { type: 'string', description: 'YYYY-MM-DD' },
+                  end: { type: 'string', description: 'YYYY-MM-DD' }
+                }
+              },
+              attributes: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Asset attribute values to match'
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Asset tags to match'
+              },
+              exists: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Fields that must be present (e.g. ["assetPrices"])'
+              },
+              not_exists: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Fields that must be absent'
+              },
+              kids: {
+                type: 'boolean',
+                description: 'Only activities for kids'
+              },
+              sort: {
+                type: 'string',
+                enum: ['date_asc', 'date_desc', 'distance', 'relevance']
+              },
+              use_preferences: {
+                type: 'boolean',
+                description: 'Fill location, radius, child handling and (for open-ended searches) favorite categories from preferences (default: true)'
+              },
               filters: {
                 type: 'object',
                 description: 'Advanced filters',
@@ -279,6 +683,7 @@ class ActiveNetworkServer {
                   },
                   age_range: {
                     type: 'object',
+                    description: 'Participant ages; keeps activities whose age requirement overlaps the range',
                     properties: {
                       min: { type: 'number' },
                       max: { type: 'number' }
@@ -293,9 +698,38 @@ class ActiveNetworkServer {
                   }
                 }
               },
+              per_page: {
+                type: 'number',
+                description: 'Number of filtered results to return (default: 25, max: 50)',
+                minimum: 1,
+                maximum: 50
+              },
+              max_pages: {
+                type: 'number',
+                description: 'Maximum upstream pages to scan while filling the page with filtered results (default: 5, max: 20)',
+                minimum: 1,
+                maximum: 20
+              },
               geo_search: {
                 type: 'object',
                 properties: {
+                  mode: {
+                    type: 'string',
+                    enum: ['near', 'lat_lon', 'bbox', 'polygon'],
+                    description: 'Geo search mode (inferred from the fields given when omitted)'
+                  },
+                  near: {
+                    type: 'string',
+                    description: 'Location string, e.g. "Portland,OR,US"'
+                  },
+                  lat_lon: {
+                    type: 'string',
+                    description: 'Latitude and longitude, e.g. "45.52,-122.68"'
+                  },
+                  radius: {
+                    type: 'number',
+                    description: 'Radius in miles for near/lat_lon searches'
+                  },
                   bbox: {
                     type: 'string',
                     description: 'Bounding box as "nw_lat,nw_lon;se_lat,se_lon"'
@@ -305,6 +739,11 @@ class ActiveNetworkServer {
                     description: 'Polygon points as semicolon-separated lat,lon pairs'
                   }
                 }
+              },
+              format: {
+                type: 'string',
+                enum: RESPONSE_FORMATS,
+                description: 'Response format: summary (name, date, place, price, URL, guid), markdown table, or full payload (default: summary)'
               }
             }
           }
@@ -344,18 +783,58 @@ class ActiveNetworkServer {
             properties: {
               action: {
                 type: 'string',
-                enum: ['list', 'status', 'cancel', 'schedule_monitor'],
+                enum: ['list', 'status', 'cancel', 'schedule_monitor', 'start_task'],
                 description: 'Task management action'
               },
               task_id: {
                 type: 'string',
                 description: 'Task ID for status/cancel operations'
               },
+              task_type: {
+                type: 'string',
+                enum: ['crawl_search', 'fetch_details'],
+                description: 'Background job to run for start_task'
+              },
+              task_config: {
+                type: 'object',
+                description: 'Background job parameters for start_task',
+                properties: {
+                  search_params: {
+                    type: 'object',
+                    description: 'search_activities parameters to crawl (crawl_search)'
+                  },
+                  saved_search: {
+                    type: 'string',
+                    description: 'Name of a saved search to crawl instead of search_params (crawl_search)'
+                  },
+                  max_pages: {
+                    type: 'number',
+                    description: 'Maximum pages of 50 results to fetch (crawl_search, default: 5, max: 20)',
+                    minimum: 1,
+                    maximum: 20
+                  },
+                  activity_ids: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Activity GUIDs to fetch details for (fetch_details)'
+                  }
+                }
+              },
               monitor_config: {
                 type: 'object',
                 properties: {
-                  search_params: { type: 'object' },
-                  check_interval: { type: 'string' },
+                  search_params: {
+                    type: 'object',
+                    description: `search_activities parameters to re-run on each check; per_page and current_page are ignored, and only the first ${MAX_WATCHED_RESULTS} results are compared`
+                  },
+                  saved_search: {
+                    type: 'string',
+                    description: 'Name of a saved search to monitor instead of search_params'
+                  },
+                  check_interval: {
+                    type: 'string',
+                    description: 'How often to re-run the search, e.g. "30m", "6h", "1d" (default: 1h, minimum: 1m)'
+                  },
                   notify_on_changes: { type: 'boolean' }
                 }
               }
@@ -363,6 +842,93 @@ class ActiveNetworkServer {
             required: ['action']
           }
         },
+        {
+          name: 'save_search',
+          description: 'Save a named search for re-running, monitoring or crawling later',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Unique name for the saved search'
+              },
+              search_params: {
+                type: 'object',
+                description: 'search_activities parameters; unset location, radius and exclude_children are filled from preferences'
+              },
+              notes: {
+                type: 'string',
+                description: 'Free-form notes about the search'
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Tags for grouping saved searches'
+              },
+              overwrite: {
+                type: 'boolean',
+                description: 'Replace an existing saved search with the same name (default: false)'
+              }
+            },
+            required: ['name', 'search_params']
+          }
+        },
+        {
+          name: 'list_saved_searches',
+          description: 'List saved searches with their notes, tags and last run',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              tag: {
+                type: 'string',
+                description: 'Only list saved searches with this tag'
+              }
+            }
+          }
+        },
+        {
+          name: 'run_saved_search',
+          description: 'Run a saved search and report which activities are new since its last run',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Saved search name'
+              },
+              fetch_all: {
+                type: 'boolean',
+                description: 'Follow pagination and merge all pages up to max_results (default: false)'
+              },
+              max_results: {
+                type: 'number',
+                description: 'Cap on merged results when fetch_all is true (default: 200, max: 1000)',
+                minimum: 1,
+                maximum: 1000
+              },
+              format: {
+                type: 'string',
+                enum: RESPONSE_FORMATS,
+                description: 'Response format: summary, markdown, or full payload (default: summary)'
+              }
+            },
+            required: ['name']
+          }
+        },
+        {
+          name: 'delete_saved_search',
+          description: 'Delete a saved search',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Saved search name'
+              }
+            },
+            required: ['name']
+          }
+        },
         {
           name: 'get_search_history',
           description: 'Get recent search history with analytics',
@@ -384,71 +950,78 @@ class ActiveNetworkServer {
         },
         {
           name: 'clear_cache',
-          description: 'Clear search cache or specific cached entries',
+          description: 'Clear the response cache, or only the entries for one key, tool or key pattern',
           inputSchema: {
             type: 'object',
             properties: {
               cache_key: {
                 type: 'string',
-                description: 'Specific cache key to clear (clears all if not specified)'
+                description: 'Specific cache key to clear'
+              },
+              tool: {
+                type: 'string',
+                enum: Object.keys(TOOL_CACHE_PATTERNS),
+                description: 'Clear the cached responses of this tool only'
+              },
+              pattern: {
+                type: 'string',
+                description: 'Clear keys matching a glob where * matches anything, e.g. "search:*denver*"'
               }
             }
           }
+        },
+        {
+          name: 'get_server_config',
+          description: 'Show the effective server configuration, where each setting came from, with secrets removed',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
         }
       ]
-    }));    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    }));    session.server.setRequestHandler(CallToolRequestSchema, this.traced(session, (request: CallToolRequest) => ({ tool: request.params.name }), async (request) => {
       switch (request.params.name) {        case 'search_activities': {
           const args = (request.params.arguments || {}) as any;
+          const fetchAll = args.fetch_all === true;
+          const format = parseFormat(args.format, 'summary');
+          const maxResults = Math.min(typeof args.max_results === 'number' ? args.max_results : 200, 1000);
           
           // Apply defaults from preferences
           const searchParams: SearchParams = {
-            near: args.near || this.context.preferences.defaultLocation,
-            radius: args.radius || this.context.preferences.defaultRadius,
-            exclude_children: args.exclude_children !== undefined ? args.exclude_children : this.context.preferences.excludeChildren,
-            per_page: Math.min(typeof args.per_page === 'number' ? args.per_page : 25, 50),
+            near: args.near || session.user.preferences.defaultLocation,
+            radius: args.radius || session.user.preferences.defaultRadius,
+            exclude_children: args.exclude_children !== undefined ? args.exclude_children : session.user.preferences.excludeChildren,
+            // Fetching everything uses the largest page the API allows
+            per_page: fetchAll ? 50 : Math.min(typeof args.per_page === 'number' ? args.per_page : 25, 50),
             current_page: typeof args.current_page === 'number' ? args.current_page : 1,
-            ...args
+            ...Object.fromEntries(SEARCH_ACTIVITIES_PARAMS.filter(name => args[name] !== undefined).map(name => [name, args[name]]))
           };
 
-          // Check cache if enabled
-          const useCache = args.use_cache !== false;
-          const cacheKey = this.generateCacheKey(searchParams);
-          
-          if (useCache) {
-            const cached = this.getCachedResult(cacheKey);
-            if (cached) {
-              return {
-                content: [{
-                  type: 'text',
-                  text: JSON.stringify({
-                    ...cached,
-                    _cached: true,
-                    _cacheTime: new Date().toISOString()
-                  }, null, 2)
-                }]
-              };
-            }
-          }
+          const cacheInfo: CacheInfo = {};
+          const options = { cache: args.use_cache !== false, cacheScope: 'search_activities', cacheInfo };
 
           try {
-            const result = await this.client.searchActivities(searchParams);
-            
-            // Cache the result
-            if (useCache) {
-              this.setCachedResult(cacheKey, result);
-            }
+            const result = fetchAll
+              ? await this.client.searchAll(searchParams, maxResults, options)
+              : await this.client.searchActivities(searchParams, options);
             
             // Add to search history
-            this.addToSearchHistory(searchParams, result.total_results || 0);
+            this.addToSearchHistory(session.user, searchParams, result.total_results || 0);
 
             return {
               content: [{
                 type: 'text',
-                text: JSON.stringify({
+                text: formatSearchResponse({
                   ...result,
+                  ...(fetchAll && {
+                    _note: 'truncated' in result && result.truncated
+                      ? `Truncated at max_results=${maxResults}; ${result.total_results} results matched`
+                      : `Complete result set of ${result.results.length} activities`
+                  }),
+                  ...this.cacheFlags(cacheInfo),
                   _searchParams: searchParams,
                   _timestamp: new Date().toISOString()
-                }, null, 2)
+                }, format)
               }]
             };
           } catch (error) {
@@ -464,19 +1037,21 @@ class ActiveNetworkServer {
           const activityId = request.params.arguments.activityId as string;
           const includePricing = request.params.arguments.include_pricing !== false;
           const includeComponents = request.params.arguments.include_components === true;
+          const format = parseFormat(request.params.arguments.format, 'full');
+          
+          const cacheInfo: CacheInfo = {};
           
           try {
-            const result = await this.client.getActivityDetails(activityId);
+            const result = await this.client.getActivityDetails(activityId, { includePricing, includeComponents, cacheInfo });
             
             return {
               content: [{
                 type: 'text',
-                text: JSON.stringify({
+                text: formatActivityDetails({
                   ...result,
-                  _includePricing: includePricing,
-                  _includeComponents: includeComponents,
+                  ...this.cacheFlags(cacheInfo),
                   _timestamp: new Date().toISOString()
-                }, null, 2)
+                }, format)
               }]
             };
           } catch (error) {
@@ -485,20 +1060,22 @@ class ActiveNetworkServer {
         }
 
         case 'get_categories': {
-          const location = request.params.arguments?.location as string;
-          const includeCounts = request.params.arguments?.include_counts !== false;
+          const args = (request.params.arguments || {}) as any;
+          const scope = this.facetScope(args, session.user);
+          
+          const cacheInfo: CacheInfo = {};
           
           try {
-            const result = await this.client.getCategories();
+            const result = await this.client.getCategories(scope, { ...this.facetOptions(args), cacheInfo });
             
             return {
               content: [{
                 type: 'text',
                 text: JSON.stringify({
-                  categories: result,
+                  categories: this.presentFacetValues(result, args.include_counts !== false),
                   count: result.length,
-                  _location: location,
-                  _includeCounts: includeCounts,
+                  _scope: scope,
+                  ...this.cacheFlags(cacheInfo),
                   _timestamp: new Date().toISOString()
                 }, null, 2)
               }]
@@ -509,22 +1086,22 @@ class ActiveNetworkServer {
         }
 
         case 'get_locations': {
-          const state = request.params.arguments?.state as string;
-          const country = request.params.arguments?.country as string || 'US';
-          const includeCounts = request.params.arguments?.include_counts !== false;
+          const args = (request.params.arguments || {}) as any;
+          const scope = this.facetScope(args, session.user);
+          
+          const cacheInfo: CacheInfo = {};
           
           try {
-            const result = await this.client.getLocations();
+            const result = await this.client.getLocations(scope, { ...this.facetOptions(args), cacheInfo });
             
             return {
               content: [{
                 type: 'text',
                 text: JSON.stringify({
-                  locations: result,
+                  locations: this.presentFacetValues(result, args.include_counts !== false),
                   count: result.length,
-                  _state: state,
-                  _country: country,
-                  _includeCounts: includeCounts,
+                  _scope: scope,
+                  ...this.cacheFlags(cacheInfo),
                   _timestamp: new Date().toISOString()
                 }, null, 2)
               }]
@@ -535,27 +1112,22 @@ class ActiveNetworkServer {
         }
 
         case 'get_topics': {
-          const category = request.params.arguments?.category as string;
-          const includeCounts = request.params.arguments?.include_counts !== false;
+          const args = (request.params.arguments || {}) as any;
+          const scope = this.facetScope(args, session.user);
+          
+          const cacheInfo: CacheInfo = {};
           
           try {
-            // Create a search to get topics via facets
-            const result = await this.client.searchActivities({
-              facets: 'topicName',
-              per_page: 0,
-              category
-            });
-            
-            const topics = result.facets?.topicName?.values?.map((v: any) => v.value) || [];
+            const result = await this.client.getTopics(scope, { ...this.facetOptions(args), cacheInfo });
             
             return {
               content: [{
                 type: 'text',
                 text: JSON.stringify({
-                  topics,
-                  count: topics.length,
-                  _category: category,
-                  _includeCounts: includeCounts,
+                  topics: this.presentFacetValues(result, args.include_counts !== false),
+                  count: result.length,
+                  _scope: scope,
+                  ...this.cacheFlags(cacheInfo),
                   _timestamp: new Date().toISOString()
                 }, null, 2)
               }]
@@ -563,44 +1135,84 @@ class ActiveNetworkServer {
           } catch (error) {
             throw new McpError(ErrorCode.InternalError, `Failed to get topics: ${error}`);
           }
-        }        case 'advanced_search': {
+        }
+
+        case 'explore_facets': {
           const args = (request.params.arguments || {}) as any;
-          const { filters = {}, geo_search = {} } = args;
-          
-          const searchParams: SearchParams = {
-            ...this.context.preferences,
-            ...(typeof geo_search === 'object' && geo_search ? geo_search : {})
-          };
+          const facets = parseFacetNames(args.facets);
+          const filters: SearchParams = args.filters && typeof args.filters === 'object' ? args.filters : {};
 
-          // Apply advanced filters with proper type checking
-          const typedFilters = filters as any;
-          if (typedFilters?.price_range) {
-            // This would need to be implemented in the client based on API capabilities
-          }
-          
-          if (typedFilters?.age_range) {
-            if (typedFilters.age_range.min) {
-              searchParams.regReqMinAge = `${typedFilters.age_range.min}..${typedFilters.age_range.max || ''}`;
-            }
+          const cacheInfo: CacheInfo = {};
+
+          try {
+            const result = await exploreFacets(this.client, filters, facets, {
+              ...this.facetOptions(args),
+              cacheScope: 'explore_facets',
+              cacheInfo,
+              limit: typeof args.limit === 'number' ? args.limit : 10,
+              suggestionsPerFacet: typeof args.suggestions_per_facet === 'number' ? args.suggestions_per_facet : undefined
+            });
+
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify({
+                  ...result,
+                  ...this.cacheFlags(cacheInfo),
+                  _timestamp: new Date().toISOString()
+                }, null, 2)
+              }]
+            };
+          } catch (error) {
+            throw new McpError(ErrorCode.InternalError, `Failed to explore facets: ${error}`);
           }
+        }
+
+        case 'advanced_search': {
+          const args = (request.params.arguments || {}) as any;
+          const filters: PostFilterCriteria = args.filters || {};
+          const format = parseFormat(args.format, 'summary');
           
-          if (typedFilters?.registration_status) {
-            searchParams.registerable_only = typedFilters.registration_status === 'open';
+          const searchParams = buildAdvancedQuery(args, session.user.preferences);
+
+          if (filters.registration_status === 'open') {
+            searchParams.registerable_only = true;
           }
 
+          // None of the filters has an exact API equivalent, so they run as a
+          // post-filtering stage over the results
+          const postFilters = buildPostFilters({
+            price_range: filters.price_range,
+            age_range: filters.age_range,
+            has_registration: filters.has_registration,
+            registration_status: filters.registration_status
+          });
+          const perPage = Math.min(typeof args.per_page === 'number' ? args.per_page : 25, 50);
+          const maxPages = Math.min(typeof args.max_pages === 'number' ? args.max_pages : 5, 20);
+          const cacheInfo: CacheInfo = {};
+
           try {
-            const result = await this.client.searchActivities(searchParams);
-            this.addToSearchHistory(searchParams, result.total_results || 0);
+            const { response: result, report, firstPageParams } = await searchWithPostFilters(
+              this.client,
+              searchParams,
+              postFilters,
+              perPage,
+              maxPages,
+              { cacheScope: 'advanced_search', cacheInfo }
+            );
+            this.addToSearchHistory(session.user, searchParams, result.total_results || 0);
 
             return {
               content: [{
                 type: 'text',
-                text: JSON.stringify({
+                text: formatSearchResponse({
                   ...result,
+                  ...(postFilters.length > 0 && { _postFilter: report }),
+                  _query: this.client.buildQueryParams(firstPageParams),
                   _advancedFilters: filters,
-                  _geoSearch: geo_search,
+                  ...this.cacheFlags(cacheInfo),
                   _timestamp: new Date().toISOString()
-                }, null, 2)
+                }, format)
               }]
             };
           } catch (error) {
@@ -620,38 +1232,37 @@ class ActiveNetworkServer {
               return {
                 content: [{
                   type: 'text',
-                  text: JSON.stringify(this.context.preferences, null, 2)
+                  text: JSON.stringify(session.user.preferences, null, 2)
                 }]
               };
               
             case 'set':
               const newPrefs = request.params.arguments?.preferences;
               if (newPrefs) {
-                Object.assign(this.context.preferences, newPrefs);
+                Object.assign(session.user.preferences, newPrefs);
+                this.scheduleSave();
+                this.notifyUserResourceUpdated(session.user, 'active://preferences');
               }
               return {
                 content: [{
                   type: 'text',
                   text: JSON.stringify({
                     message: 'Preferences updated successfully',
-                    preferences: this.context.preferences
+                    preferences: session.user.preferences
                   }, null, 2)
                 }]
               };
               
             case 'reset':
-              this.context.preferences = {
-                defaultLocation: 'Vancouver,BC,CA',
-                defaultRadius: 25,
-                favoriteCategories: [],
-                excludeChildren: true
-              };
+              session.user.preferences = this.defaultPreferences();
+              this.scheduleSave();
+              this.notifyUserResourceUpdated(session.user, 'active://preferences');
               return {
                 content: [{
                   type: 'text',
                   text: JSON.stringify({
                     message: 'Preferences reset to defaults',
-                    preferences: this.context.preferences
+                    preferences: session.user.preferences
                   }, null, 2)
                 }]
               };
@@ -686,7 +1297,7 @@ class ActiveNetworkServer {
                 throw new McpError(ErrorCode.InvalidParams, 'Task ID is required');
               }
               
-              const task = this.taskManager.backgroundTasks.get(taskId);
+              const task = this.taskManager.backgroundTasks.get(taskId) || this.scheduler.get(taskId);
               if (!task) {
                 throw new McpError(ErrorCode.InvalidRequest, 'Task not found');
               }
@@ -698,27 +1309,108 @@ class ActiveNetworkServer {
                 }]
               };
               
-            case 'cancel':
-              // Implementation would depend on actual task management
+            case 'cancel': {
+              const cancelId = request.params.arguments?.task_id as string;
+              if (!cancelId) {
+                throw new McpError(ErrorCode.InvalidParams, 'Task ID is required');
+              }
+
+              if (this.scheduler.unschedule(cancelId)) {
+                this.notifyResourceUpdated('active://task-status');
+                this.notifyResourceListChanged();
+                return {
+                  content: [{
+                    type: 'text',
+                    text: JSON.stringify({
+                      message: `Monitor '${cancelId}' cancelled`
+                    }, null, 2)
+                  }]
+                };
+              }
+
+              const cancelled = this.taskRunner.cancel(cancelId);
+              return {
+                content: [{
+                  type: 'text',
+                  text: JSON.stringify({
+                    message: `Task '${cancelId}' cancelled`,
+                    task: cancelled
+                  }, null, 2)
+                }]
+              };
+            }
+
+            case 'start_task': {
+              const taskType = request.params.arguments?.task_type as string;
+              const taskConfig = (request.params.arguments?.task_config || {}) as any;
+              let started: BackgroundTask;
+
+              switch (taskType) {
+                case 'crawl_search': {
+                  const { params: crawlParams, savedSearch } = this.resolveSearchSource(session.user, taskConfig, 'task_config');
+                  const maxPages = Math.min(typeof taskConfig.max_pages === 'number' ? taskConfig.max_pages : 5, 20);
+                  started = this.taskRunner.start(
+                    this.generateTaskId(),
+                    taskType,
+                    { search_params: crawlParams, max_pages: maxPages, ...(savedSearch && { saved_search: savedSearch }) },
+                    (ctx) => this.crawlSearch(session.user, crawlParams, maxPages, ctx)
+                  );
+                  break;
+                }
+
+                case 'fetch_details': {
+                  const ids = taskConfig.activity_ids;
+                  if (!Array.isArray(ids) || ids.length === 0) {
+                    throw new McpError(ErrorCode.InvalidParams, 'task_config.activity_ids must be a non-empty array');
+                  }
+                  started = this.taskRunner.start(
+                    this.generateTaskId(),
+                    taskType,
+                    { activity_ids: ids },
+                    (ctx) => this.fetchDetailsBulk(ids.map(String), ctx)
+                  );
+                  break;
+                }
+
+                default:
+                  throw new McpError(ErrorCode.InvalidParams, `Unknown task type: ${taskType}`);
+              }
+
               return {
                 content: [{
                   type: 'text',
                   text: JSON.stringify({
-                    message: 'Task cancellation not yet implemented'
+                    message: `Task started; poll with action 'status' and task_id '${started.id}'`,
+                    task: started
                   }, null, 2)
                 }]
               };
+            }
               
-            case 'schedule_monitor':
-              // Implementation for scheduling monitoring tasks
+            case 'schedule_monitor': {
+              const monitorConfig = request.params.arguments?.monitor_config as any;
+              const { params: monitorParams, savedSearch } = this.resolveSearchSource(session.user, monitorConfig, 'monitor_config');
+
+              const monitor = this.scheduler.schedule(
+                this.generateTaskId(),
+                monitorParams,
+                monitorConfig.check_interval || '1h',
+                monitorConfig.notify_on_changes === true,
+                savedSearch
+              );
+              this.notifyResourceUpdated('active://task-status');
+              this.notifyResourceListChanged();
+
               return {
                 content: [{
                   type: 'text',
                   text: JSON.stringify({
-                    message: 'Task scheduling not yet implemented'
+                    message: `Monitor scheduled every ${monitor.schedule}`,
+                    monitor
                   }, null, 2)
                 }]
               };
+            }
               
             default:
               throw new McpError(ErrorCode.InvalidParams, `Unknown action: ${action}`);
@@ -728,8 +1420,8 @@ class ActiveNetworkServer {
           const limit = Math.min(typeof args.limit === 'number' ? args.limit : 10, 50);
           const includeAnalytics = args.include_analytics !== false;
           
-          const recentSearches = this.context.recentSearches.slice(-limit);
-          const analytics = includeAnalytics ? this.calculateSearchAnalytics() : null;
+          const recentSearches = session.user.recentSearches.slice(-limit);
+          const analytics = includeAnalytics ? this.calculateSearchAnalytics(session.user) : null;
           
           return {
             content: [{
@@ -744,98 +1436,214 @@ class ActiveNetworkServer {
           };
         }
 
-        case 'clear_cache': {
-          const cacheKey = request.params.arguments?.cache_key as string;
-          
-          if (cacheKey) {
-            this.context.cache.delete(cacheKey);
+        case 'save_search': {
+          const args = (request.params.arguments || {}) as any;
+          if (!args.search_params || typeof args.search_params !== 'object') {
+            throw new McpError(ErrorCode.InvalidParams, 'search_params is required');
+          }
+
+          const isNew = !this.savedSearches.has(args.name);
+          const saved = this.savedSearches.save(args.name, this.withPreferenceDefaults(session.user, args.search_params), {
+            notes: typeof args.notes === 'string' ? args.notes : undefined,
+            tags: Array.isArray(args.tags) ? args.tags : [],
+            overwrite: args.overwrite === true
+          });
+          this.scheduleSave();
+          if (isNew) {
+            this.notifyResourceListChanged();
+          } else {
+            this.notifyResourceUpdated(templateUri('search', saved.name));
+          }
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                message: `Search '${saved.name}' saved`,
+                savedSearch: saved,
+                resource: templateUri('search', saved.name)
+              }, null, 2)
+            }]
+          };
+        }
+
+        case 'list_saved_searches': {
+          const tag = request.params.arguments?.tag as string | undefined;
+          const searches = this.savedSearches.list(tag).map(({ lastRunGuids, ...search }) => ({
+            ...search,
+            lastRunResultCount: lastRunGuids.length
+          }));
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                savedSearches: searches,
+                count: searches.length,
+                _timestamp: new Date().toISOString()
+              }, null, 2)
+            }]
+          };
+        }
+
+        case 'run_saved_search': {
+          const args = (request.params.arguments || {}) as any;
+          const saved = this.savedSearches.get(args.name);
+          const format = parseFormat(args.format, 'summary');
+          const maxResults = Math.min(typeof args.max_results === 'number' ? args.max_results : 200, 1000);
+
+          try {
+            // New-result tracking needs live results, not a cached page
+            const result = args.fetch_all === true
+              ? await this.client.searchAll(saved.params, maxResults, { cache: false })
+              : await this.client.searchActivities(saved.params, { cache: false });
+
+            const run = this.savedSearches.recordRun(saved.name, result.results || []);
+            this.addToSearchHistory(session.user, saved.params, result.total_results || 0);
+            this.notifyResourceUpdated(templateUri('search', saved.name));
+
             return {
               content: [{
                 type: 'text',
-                text: JSON.stringify({
-                  message: `Cache entry '${cacheKey}' cleared`
-                }, null, 2)
+                text: formatSearchResponse({
+                  ...result,
+                  _savedSearch: saved.name,
+                  _newSinceLastRun: run.newGuids,
+                  _note: run.baseline
+                    ? 'First run; later runs report new assetGuids against this one'
+                    : `${run.newGuids.length} new since ${run.previousRunAt?.toISOString()}`,
+                  _timestamp: new Date().toISOString()
+                }, format)
               }]
             };
+          } catch (error) {
+            throw new McpError(ErrorCode.InternalError, `Saved search failed: ${error}`);
+          }
+        }
+
+        case 'delete_saved_search': {
+          const deleted = this.savedSearches.delete(request.params.arguments?.name as string);
+          this.scheduleSave();
+          this.notifyResourceListChanged();
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                message: `Saved search '${deleted.name}' deleted`
+              }, null, 2)
+            }]
+          };
+        }
+
+        case 'clear_cache': {
+          const { cache_key: cacheKey, tool, pattern } = (request.params.arguments || {}) as any;
+          if ([cacheKey, tool, pattern].filter(value => value !== undefined).length > 1) {
+            throw new McpError(ErrorCode.InvalidParams, 'Pass at most one of cache_key, tool and pattern');
+          }
+
+          let keys: string[];
+          let message: string;
+          if (cacheKey !== undefined) {
+            keys = [String(cacheKey)];
+            message = `Cache entry '${cacheKey}' cleared`;
+          } else if (tool !== undefined) {
+            const toolPattern = TOOL_CACHE_PATTERNS[tool];
+            if (!toolPattern) {
+              throw new McpError(ErrorCode.InvalidParams, `tool must be one of: ${Object.keys(TOOL_CACHE_PATTERNS).join(', ')}`);
+            }
+            keys = matchCacheKeys(this.context.cache, toolPattern);
+            message = `Cleared entries cached by ${tool}`;
+          } else if (pattern !== undefined) {
+            if (typeof pattern !== 'string' || !pattern) {
+              throw new McpError(ErrorCode.InvalidParams, 'pattern must be a non-empty string');
+            }
+            keys = matchCacheKeys(this.context.cache, pattern);
+            message = `Cleared entries matching '${pattern}'`;
           } else {
-            this.context.cache.clear();
+            const cleared = this.context.cache.keys().length;
+            await this.context.cache.clear();
             return {
               content: [{
                 type: 'text',
                 text: JSON.stringify({
-                  message: 'All cache entries cleared'
+                  message: 'All cache entries cleared',
+                  cleared
                 }, null, 2)
               }]
             };
           }
+
+          let cleared = 0;
+          for (const key of keys) {
+            if (await this.context.cache.delete(key)) cleared++;
+          }
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                message,
+                cleared
+              }, null, 2)
+            }]
+          };
+        }
+
+        case 'get_server_config': {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                version: SERVER_VERSION,
+                configFile: this.loadedConfig.file ?? null,
+                config: redactConfig(this.config),
+                sources: this.loadedConfig.sources
+              }, null, 2)
+            }]
+          };
         }
 
         default:
           throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
       }
-    });
+    }));
   }
 
-  private setupResourceHandlers() {
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: [
-        {
-          uri: 'active://search-history',
-          name: 'Search History',
-          description: 'Recent activity searches and analytics',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'active://preferences',
-          name: 'User Preferences',
-          description: 'User search preferences and settings',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'active://cache-stats',
-          name: 'Cache Statistics',
-          description: 'Cache performance and statistics',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'active://task-status',
-          name: 'Task Status',
-          description: 'Background task status and results',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'active://api-stats',
-          name: 'API Statistics',
-          description: 'API usage statistics and health',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'active://categories',
-          name: 'Activity Categories',
-          description: 'All available activity categories with metadata',
-          mimeType: 'application/json'
-        },
-        {
-          uri: 'active://topics',
-          name: 'Activity Topics',
-          description: 'All available activity topics with metadata',
-          mimeType: 'application/json'
-        }
-      ]
+  private setupResourceHandlers(session: ClientSession) {
+    session.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [...STATIC_RESOURCES, ...this.savedSearchResources()]
+    }));
+
+    session.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES
     }));
 
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    session.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      if (!STATIC_RESOURCES.some(r => r.uri === uri) && !matchResourceTemplate(uri)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+      session.subscriptions.add(uri);
+      return {};
+    });
+
+    session.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      session.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    session.server.setRequestHandler(ReadResourceRequestSchema, this.traced(session, (request: ReadResourceRequest) => ({ resource: request.params.uri }), async (request) => {
       const uri = request.params.uri;
       
       switch (uri) {
         case 'active://search-history': {
-          const analytics = this.calculateSearchAnalytics();
+          const analytics = this.calculateSearchAnalytics(session.user);
           return {
             contents: [{
               uri,
               mimeType: 'application/json',
               text: JSON.stringify({
-                recentSearches: this.context.recentSearches.slice(-20),
+                recentSearches: session.user.recentSearches.slice(-20),
                 analytics
               }, null, 2)
             }]
@@ -847,7 +1655,7 @@ class ActiveNetworkServer {
             contents: [{
               uri,
               mimeType: 'application/json',
-              text: JSON.stringify(this.context.preferences, null, 2)
+              text: JSON.stringify(session.user.preferences, null, 2)
             }]
           };
         }
@@ -877,6 +1685,16 @@ class ActiveNetworkServer {
           };
         }
         
+        case 'active://metrics': {
+          return {
+            contents: [{
+              uri,
+              mimeType: PROMETHEUS_CONTENT_TYPE,
+              text: metrics.render()
+            }]
+          };
+        }
+
         case 'active://api-stats': {
           const uptime = Date.now() - this.startTime.getTime();
           return {
@@ -886,10 +1704,12 @@ class ActiveNetworkServer {
               text: JSON.stringify({
                 uptime: uptime,
                 uptimeFormatted: this.formatUptime(uptime),
-                serverVersion: '1.0.0',
+                serverVersion: SERVER_VERSION,
                 apiVersion: 'v2',
-                totalSearches: this.context.recentSearches.length,
-                cacheHitRate: this.calculateCacheHitRate()
+                totalSearches: Array.from(this.context.users.values()).reduce((sum, user) => sum + user.recentSearches.length, 0),
+                activeSessions: this.sessions.size,
+                cacheHitRate: this.context.cache.stats().hitRate,
+                client: this.client.getUsageStats()
               }, null, 2)
             }]
           };
@@ -933,14 +1753,143 @@ class ActiveNetworkServer {
           }
         }
         
+        case 'active://sessions': {
+          // Named users are authenticated: stdio is 'default', HTTP users hold a token
+          if (!session.user.persistent || !this.adminUsers.has(session.user.userId)) {
+            throw new McpError(ErrorCode.InvalidRequest, 'active://sessions is restricted to ACTIVE_NETWORK_ADMIN_USERS');
+          }
+          return {
+            contents: [{
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify({
+                sessions: Array.from(this.sessions.values(), s => ({
+                  id: s.id,
+                  transport: s.transport,
+                  userId: s.user.persistent ? s.user.userId : null,
+                  connectedAt: s.connectedAt,
+                  subscriptions: Array.from(s.subscriptions),
+                  searchCount: s.user.recentSearches.length
+                })),
+                count: this.sessions.size,
+                knownUsers: Array.from(this.context.users.values()).filter(u => u.persistent).length,
+                _timestamp: new Date().toISOString()
+              }, null, 2)
+            }]
+          };
+        }
+
         default:
-          throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
+          return this.readTemplatedResource(uri);
+      }
+    }));
+  }
+
+  // Saved searches and monitors each appear as a concrete active://search/ resource
+  private savedSearchResources(): Resource[] {
+    const saved = this.savedSearches.list().map(search => ({
+      uri: templateUri('search', search.name),
+      name: `Saved Search ${search.name}`,
+      description: search.notes || 'Current results of this saved search',
+      mimeType: 'application/json'
+    }));
+    const monitors = this.taskManager.scheduledTasks.map(task => ({
+      uri: templateUri('search', task.id),
+      name: `Monitor ${task.id}`,
+      description: `Results of the search monitored every ${task.schedule}`,
+      mimeType: 'application/json'
+    }));
+    return [...saved, ...monitors];
+  }
+
+  // Sends resources/updated to each session subscribed to the URI
+  private notifyResourceUpdated(...uris: string[]): void {
+    this.sendResourceUpdated(Array.from(this.sessions.values()), uris);
+  }
+
+  // Preferences and search history only concern the sessions of their user
+  private notifyUserResourceUpdated(user: UserContext, ...uris: string[]): void {
+    this.sendResourceUpdated(Array.from(this.sessions.values()).filter(s => s.user === user), uris);
+  }
+
+  private sendResourceUpdated(sessions: ClientSession[], uris: string[]): void {
+    sessions.forEach(session => {
+      for (const uri of uris) {
+        if (!session.subscriptions.has(uri)) continue;
+        session.server.sendResourceUpdated({ uri })
+          .catch(error => logger.warn('Failed to send resource update', { uri, sessionId: session.id, error }));
       }
     });
   }
 
-  private setupPromptHandlers() {
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+  private notifyResourceListChanged(): void {
+    this.sessions.forEach(session => {
+      session.server.sendResourceListChanged()
+        .catch(error => logger.warn('Failed to send resource list change', { sessionId: session.id, error }));
+    });
+  }
+
+  private async readTemplatedResource(uri: string) {
+    const match = matchResourceTemplate(uri);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
+    }
+
+    // Templated resources share the client's response cache with the tools
+    const cacheInfo: CacheInfo = {};
+    let data: Record<string, any>;
+
+    try {
+      switch (match.name) {
+        case 'activity':
+          data = await this.client.getActivityDetails(match.value, { includePricing: true, cacheInfo });
+          break;
+
+        case 'search': {
+          // Named saved searches take precedence over monitor ids
+          const params = this.savedSearches.has(match.value)
+            ? this.savedSearches.get(match.value).params
+            : this.scheduler.get(match.value)?.params.search_params;
+          if (!params) {
+            throw new McpError(ErrorCode.InvalidRequest, `Saved search not found: ${match.value}`);
+          }
+          const result = await this.client.searchActivities(params, { cacheInfo });
+          data = { savedSearch: match.value, searchParams: params, ...result };
+          break;
+        }
+
+        case 'topics': {
+          const topics = await this.client.getTopics({ category: match.value }, { cacheInfo });
+          data = { category: match.value, topics, count: topics.length };
+          break;
+        }
+
+        case 'locations': {
+          const locations = await this.client.getLocations({ state: match.value }, { cacheInfo });
+          data = { state: match.value, locations, count: locations.length };
+          break;
+        }
+      }
+    } catch (error) {
+      if (error instanceof McpError && error.code === ErrorCode.InvalidRequest) throw error;
+      throw new McpError(ErrorCode.InternalError, `Failed to read ${uri}: ${error}`);
+    }
+
+    return {
+      contents: [{
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify({
+          ...data,
+          ...this.cacheFlags(cacheInfo),
+          _timestamp: new Date().toISOString()
+        }, null, 2)
+      }]
+    };
+  }
+
+  private setupPromptHandlers(session: ClientSession) {
+    session.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
       prompts: [
         {
           name: 'find_activities',
@@ -1019,7 +1968,7 @@ class ActiveNetworkServer {
       ]
     }));
 
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    session.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
       
       switch (name) {
@@ -1153,13 +2102,159 @@ Activity IDs to compare: ${ids.join(', ')}`
   }
 
   async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error('Active Network MCP server running on stdio');
+    const config = parseTransportConfig(process.argv.slice(2), process.env);
+    await this.loadState();
+
+    const { host: metricsHost, port: metricsPort } = this.config.metrics;
+    if (metricsPort !== undefined) {
+      this.metricsServer = await serveMetrics({ host: metricsHost, port: metricsPort });
+      const address = this.metricsServer.address();
+      const port = typeof address === 'object' && address ? address.port : metricsPort;
+      logger.info('Metrics endpoint listening', { url: `http://${metricsHost}:${port}/metrics` });
+    }
+
+    if (config.mode === 'http') {
+      await this.runHttp(config);
+      return;
+    }
+
+    const session = this.createSession('stdio', 'stdio', DEFAULT_USER_ID);
+    // The stdio client owns this process, so losing it ends the server
+    session.server.onclose = () => this.shutdown('stdio closed');
+    await session.server.connect(new StdioServerTransport());
+    logger.info('Active Network MCP server running on stdio');
+  }
+
+  private async runHttp(config: TransportConfig) {
+    this.httpServer = new McpHttpServer(config, {
+      authenticate: (req) => authenticateUser(req, this.userTokens),
+      connect: async (transport, userId) => {
+        const session = this.createSession(transport.sessionId, 'sse', userId);
+        try {
+          await session.server.connect(transport);
+        } catch (error) {
+          await this.closeSession(session).catch(() => undefined);
+          throw error;
+        }
+        return () => this.closeSession(session);
+      },
+      health: () => ({
+        version: SERVER_VERSION,
+        uptime: this.formatUptime(Date.now() - this.startTime.getTime()),
+        runningTasks: Array.from(this.taskManager.backgroundTasks.values()).filter(t => t.status === 'running').length,
+        monitors: this.taskManager.scheduledTasks.length
+      }),
+      metrics: () => metrics.render()
+    });
+
+    const { host, port } = await this.httpServer.listen();
+    logger.info('Active Network MCP server listening', { url: `http://${host}:${port}`, sse: '/sse', health: '/health', metrics: '/metrics' });
+  }
+
+  // Search filters that scope a facet query for the discovery tools
+  private facetScope(args: any, user: UserContext): SearchParams {
+    const scope: SearchParams = {};
+    if (typeof args.location === 'string' && args.location) {
+      scope.near = args.location;
+      scope.radius = typeof args.radius === 'number' ? args.radius : user.preferences.defaultRadius;
+    }
+    if (typeof args.state === 'string' && args.state) scope.state = args.state;
+    if (typeof args.country === 'string' && args.country) scope.country = args.country;
+    if (typeof args.category === 'string' && args.category) scope.category = args.category;
+    return scope;
   }
 
-  private calculateSearchAnalytics() {
-    const searches = this.context.recentSearches;
+  private facetOptions(args: any): FacetQueryOptions {
+    return {
+      minCount: typeof args.min_count === 'number' ? args.min_count : undefined,
+      limit: typeof args.limit === 'number' ? args.limit : undefined
+    };
+  }
+
+  private presentFacetValues(values: FacetValue[], includeCounts: boolean) {
+    return includeCounts ? values : values.map(v => v.value);
+  }
+
+  private withPreferenceDefaults(user: UserContext, params: SearchParams): SearchParams {
+    return {
+      near: user.preferences.defaultLocation,
+      radius: user.preferences.defaultRadius,
+      exclude_children: user.preferences.excludeChildren,
+      ...params
+    };
+  }
+
+  // Monitors and crawls take either a saved search name or explicit search_params
+  private resolveSearchSource(user: UserContext, config: any, field: string): { params: SearchParams; savedSearch?: string } {
+    if (typeof config?.saved_search === 'string') {
+      const saved = this.savedSearches.get(config.saved_search);
+      return { params: { ...saved.params }, savedSearch: saved.name };
+    }
+    if (!config || typeof config.search_params !== 'object' || !config.search_params) {
+      throw new McpError(ErrorCode.InvalidParams, `${field}.search_params or ${field}.saved_search is required`);
+    }
+    return { params: this.withPreferenceDefaults(user, config.search_params) };
+  }
+
+  private async loadState(): Promise<void> {
+    try {
+      const state = await this.store.load();
+      if (!state) return;
+
+      for (const user of state.users) {
+        this.context.users.set(user.userId, {
+          userId: user.userId,
+          preferences: { ...this.defaultPreferences(), ...user.preferences },
+          recentSearches: user.recentSearches.slice(-this.config.historyLimit),
+          persistent: true
+        });
+      }
+      state.savedSearches.forEach(search => this.context.savedSearches.set(search.name, search));
+
+      if (!this.context.cache.durable) {
+        this.context.cache.restore(state.cache);
+      }
+      logger.info('Loaded persisted state', { store: this.store.kind });
+    } catch (error) {
+      // Fall back to memory so an unreadable or newer state file is never overwritten
+      logger.error('Failed to load persisted state, continuing without persistence', { error });
+      this.store = new MemoryStore();
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saveState().catch(error => logger.error('Failed to persist state', { error }));
+    }, 1000);
+  }
+
+  private async flushState(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    try {
+      await this.saveState();
+    } catch (error) {
+      logger.error('Failed to persist state', { error });
+    }
+  }
+
+  private saveState(): Promise<void> {
+    return this.store.save({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      users: Array.from(this.context.users.values())
+        .filter(user => user.persistent)
+        .map(({ userId, preferences, recentSearches }) => ({ userId, preferences, recentSearches })),
+      cache: this.context.cache.snapshot(),
+      savedSearches: Array.from(this.context.savedSearches.values())
+    });
+  }
+
+  private calculateSearchAnalytics(user: UserContext) {
+    const searches = user.recentSearches;
     const now = new Date();
     const last24h = searches.filter(s => now.getTime() - s.timestamp.getTime() < 24 * 60 * 60 * 1000);
     const last7d = searches.filter(s => now.getTime() - s.timestamp.getTime() < 7 * 24 * 60 * 60 * 1000);
@@ -1171,7 +2266,7 @@ Activity IDs to compare: ${ids.join(', ')}`
     }, {} as Record<string, number>);
     
     const locationFreq = searches.reduce((acc, search) => {
-      const location = search.query.near || this.context.preferences.defaultLocation || 'unknown';
+      const location = search.query.near || user.preferences.defaultLocation || 'unknown';
       acc[location] = (acc[location] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
@@ -1192,25 +2287,9 @@ Activity IDs to compare: ${ids.join(', ')}`
   }
 
   private getCacheStats() {
-    const cache = this.context.cache;
-    const now = new Date();
-    let expired = 0;
-    let valid = 0;
-    
-    cache.forEach(entry => {
-      if (now.getTime() - entry.timestamp.getTime() > entry.ttl) {
-        expired++;
-      } else {
-        valid++;
-      }
-    });
-
     return {
-      totalEntries: cache.size,
-      validEntries: valid,
-      expiredEntries: expired,
-      cacheHitRate: this.calculateCacheHitRate(),
-      memoryUsage: this.estimateCacheMemoryUsage()
+      ...this.context.cache.stats(),
+      ttls: this.config.cache.ttls
     };
   }
 
@@ -1226,74 +2305,67 @@ Activity IDs to compare: ${ids.join(', ')}`
     return `${seconds}s`;
   }
 
-  private calculateCacheHitRate(): number {
-    // This would need to be tracked during actual cache usage
-    // For now, return a placeholder based on cache size
-    return this.context.cache.size > 0 ? 0.75 : 0;
+  // _stale marks data past its TTL that was served while a refresh runs
+  private cacheFlags(info: CacheInfo) {
+    return info.cached
+      ? { _cached: true, _stale: info.stale === true, _cacheTime: info.cachedAt?.toISOString() }
+      : {};
   }
 
-  private estimateCacheMemoryUsage(): number {
-    let size = 0;
-    this.context.cache.forEach(entry => {
-      size += JSON.stringify(entry.data).length;
+  private addToSearchHistory(user: UserContext, query: SearchParams, resultCount: number): void {
+    user.recentSearches.push({
+      query: { ...query },
+      timestamp: new Date(),
+      resultCount
     });
-    return size;
-  }
-
-  private generateCacheKey(params: any): string {
-    return JSON.stringify(params);
-  }
-
-  private getCachedResult(key: string): any | null {
-    const entry = this.context.cache.get(key);
-    if (!entry) return null;
     
-    const now = new Date();
-    if (now.getTime() - entry.timestamp.getTime() > entry.ttl) {
-      this.context.cache.delete(key);
-      return null;
+    if (user.recentSearches.length > this.config.historyLimit) {
+      user.recentSearches = user.recentSearches.slice(-this.config.historyLimit);
     }
-    
-    return entry.data;
+    this.scheduleSave();
+    this.notifyUserResourceUpdated(user, 'active://search-history');
   }
 
-  private setCachedResult(key: string, data: any, ttl: number = 300000): void { // 5 minutes default
-    this.context.cache.set(key, {
-      data,
-      timestamp: new Date(),
-      ttl
-    });
-    
-    // Clean up expired entries occasionally
-    if (this.context.cache.size > 100) {
-      this.cleanupExpiredCache();
+  private async crawlSearch(user: UserContext, params: SearchParams, maxPages: number, ctx: TaskContext) {
+    const results: Activity[] = [];
+    let totalResults = 0;
+    let pagesFetched = 0;
+
+    const pages = this.client.iterateSearchPages({ ...params, per_page: 50, current_page: 1 }, { signal: ctx.signal });
+    for await (const response of pages) {
+      throwIfCancelled(ctx.signal);
+      pagesFetched++;
+      totalResults = response.total_results || 0;
+      results.push(...(response.results || []));
+
+      const expectedPages = Math.min(maxPages, Math.ceil(totalResults / 50));
+      ctx.reportProgress(pagesFetched / Math.max(1, expectedPages));
+      if (pagesFetched >= maxPages) break;
     }
-  }
 
-  private cleanupExpiredCache(): void {
-    const now = new Date();
-    const toDelete: string[] = [];
-    
-    this.context.cache.forEach((entry, key) => {
-      if (now.getTime() - entry.timestamp.getTime() > entry.ttl) {
-        toDelete.push(key);
-      }
-    });
-    
-    toDelete.forEach(key => this.context.cache.delete(key));
+    this.addToSearchHistory(user, params, totalResults);
+    return { totalResults, pagesFetched, resultCount: results.length, results };
   }
 
-  private addToSearchHistory(query: SearchParams, resultCount: number): void {
-    this.context.recentSearches.push({
-      query: { ...query },
-      timestamp: new Date(),
-      resultCount
-    });
-    
-    // Keep only last 100 searches
-    if (this.context.recentSearches.length > 100) {
-      this.context.recentSearches = this.context.recentSearches.slice(-100);
+  private async fetchDetailsBulk(activityIds: string[], ctx: TaskContext) {
+    const details: ActivityDetails[] = [];
+    const errors: Array<{ activityId: string; error: string }> = [];
+
+    for (let i = 0; i < activityIds.length; i++) {
+      throwIfCancelled(ctx.signal);
+      try {
+        details.push(await this.client.getActivityDetails(activityIds[i], { signal: ctx.signal }));
+      } catch (error) {
+        throwIfCancelled(ctx.signal);
+        errors.push({
+          activityId: activityIds[i],
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      ctx.reportProgress((i + 1) / activityIds.length);
     }
+
+    return { details, errors };
   }
 
   private generateTaskId(): string {
@@ -1301,5 +2373,15 @@ Activity IDs to compare: ${ids.join(', ')}`
   }
 }
 
-const server = new ActiveNetworkServer();
-server.run().catch(console.error);
+let server: ActiveNetworkServer;
+try {
+  server = new ActiveNetworkServer(loadConfig(process.argv.slice(2)));
+} catch (error) {
+  // Configuration problems are reported once, without a stack trace
+  logger.error('Invalid configuration', { error });
+  process.exit(1);
+}
+server.run().catch(error => {
+  logger.error('Server failed to start', { error });
+  process.exit(1);
+});
@@ -0,0 +1,290 @@
+import {
+  Activity,
+  ActivityComponent,
+  AssetAttribute,
+  AssetCategory,
+  AssetChild,
+  AssetDescription,
+  AssetImage,
+  AssetPrice,
+  AssetTag,
+  AssetTopic,
+  FeeEntry,
+  Place,
+  SearchResponse,
+  ValidationIssue
+} from './types/active-network.js';
+
+function toAmount(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const amount = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.\-]/g, ''));
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Turns raw assetPrices entries into a fee table. Amounts arrive as numbers
+ * or strings depending on the source system, and names sit either on the
+ * entry or on a nested priceType.
+ */
+export function buildFeeTable(prices: unknown): FeeEntry[] {
+  if (!Array.isArray(prices)) return [];
+
+  return prices.map((price: any) => {
+    const fee: FeeEntry = {
+      name: price?.priceType?.priceTypeName || price?.priceTypeName || 'Registration',
+      amount: toAmount(price?.priceAmt) ?? null
+    };
+
+    const min = toAmount(price?.minPriceAmt);
+    const max = toAmount(price?.maxPriceAmt);
+    if (min !== undefined) fee.minAmount = min;
+    if (max !== undefined) fee.maxAmount = max;
+    if (price?.currencyCd || price?.currencyCode) fee.currency = price.currencyCd || price.currencyCode;
+    if (price?.effectiveUntilDate) fee.effectiveUntil = price.effectiveUntilDate;
+    return fee;
+  });
+}
+
+/**
+ * Flattens the child assets of an activity (sessions, race distances,
+ * divisions) into components with their own dates and, optionally, fees.
+ * AMP returns these under assetComponents or assetChildren depending on the
+ * source system, sometimes wrapped in an `asset` object.
+ */
+export function extractComponents(activity: any, includePricing: boolean): ActivityComponent[] {
+  const children = [
+    ...(Array.isArray(activity?.assetComponents) ? activity.assetComponents : []),
+    ...(Array.isArray(activity?.assetChildren) ? activity.assetChildren : [])
+  ];
+
+  const seen = new Set<string>();
+  const components: ActivityComponent[] = [];
+
+  for (const child of children) {
+    const asset = child?.asset || child;
+    const guid = asset?.assetGuid || child?.childAssetGuid || child?.assetGuid;
+    if (!guid || seen.has(guid)) continue;
+    seen.add(guid);
+
+    const component: ActivityComponent = {
+      assetGuid: guid,
+      assetName: asset?.assetName || child?.assetName || ''
+    };
+
+    const type = child?.componentTypeName || asset?.assetTypeName || asset?.assetType?.assetTypeName;
+    if (type) component.componentType = type;
+    if (asset?.activityStartDate) component.startDate = asset.activityStartDate;
+    if (asset?.activityEndDate) component.endDate = asset.activityEndDate;
+    if (includePricing) component.fees = buildFeeTable(asset?.assetPrices);
+
+    components.push(component);
+  }
+
+  return components;
+}
+
+type IssueSink = (field: string, problem: ValidationIssue['problem'], detail?: string) => void;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, field: string, report: IssueSink): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  report(field, 'malformed', `expected string, got ${typeof value}`);
+  return undefined;
+}
+
+function optionalNumber(value: unknown, field: string, report: IssueSink): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = toAmount(value);
+  if (parsed === undefined) {
+    report(field, 'malformed', `expected number, got ${JSON.stringify(value)}`);
+  }
+  return parsed;
+}
+
+function optionalDate(value: unknown, field: string, report: IssueSink): string | undefined {
+  const text = optionalString(value, field, report);
+  if (text === undefined) return undefined;
+  if (Number.isNaN(Date.parse(text))) {
+    report(field, 'malformed', `unparseable date '${text}'`);
+    return undefined;
+  }
+  return text;
+}
+
+// Keeps only object entries of an array field, reporting anything else
+function objectArray<T>(value: unknown, field: string, report: IssueSink, valid: (item: Record<string, any>) => boolean = () => true): T[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    report(field, 'malformed', 'expected an array');
+    return undefined;
+  }
+
+  const items: T[] = [];
+  value.forEach((item, index) => {
+    if (isObject(item) && valid(item)) {
+      items.push(item as T);
+    } else {
+      report(`${field}[${index}]`, 'malformed', 'unexpected entry shape');
+    }
+  });
+  return items;
+}
+
+function normalizePlace(raw: unknown, report: IssueSink): Place | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isObject(raw)) {
+    report('place', 'malformed', 'expected an object');
+    return undefined;
+  }
+
+  const place: Place = {
+    ...raw,
+    placeName: optionalString(raw.placeName, 'place.placeName', report) || '',
+    addressLine1Txt: optionalString(raw.addressLine1Txt, 'place.addressLine1Txt', report) || '',
+    cityName: optionalString(raw.cityName, 'place.cityName', report) || '',
+    stateProvinceCode: optionalString(raw.stateProvinceCode, 'place.stateProvinceCode', report) || '',
+    postalCode: optionalString(raw.postalCode, 'place.postalCode', report) || ''
+  };
+
+  const lat = optionalNumber(raw.geoPoint?.lat ?? raw.latitude, 'place.latitude', report);
+  const lon = optionalNumber(raw.geoPoint?.lon ?? raw.longitude, 'place.longitude', report);
+  delete place.latitude;
+  delete place.longitude;
+  delete place.geoPoint;
+
+  if (lat !== undefined && lon !== undefined) {
+    if (Math.abs(lat) > 90 || Math.abs(lon) > 180 || (lat === 0 && lon === 0)) {
+      report('place.geoPoint', 'malformed', `coordinates out of range (${lat}, ${lon})`);
+    } else {
+      place.latitude = lat;
+      place.longitude = lon;
+      place.geoPoint = { lat, lon };
+    }
+  }
+
+  return place;
+}
+
+function normalizePrices(raw: unknown, report: IssueSink): AssetPrice[] | undefined {
+  const prices = objectArray<Record<string, any>>(raw, 'assetPrices', report);
+  return prices?.map((price, index) => {
+    const normalized: AssetPrice = {
+      ...price,
+      priceAmt: optionalNumber(price.priceAmt, `assetPrices[${index}].priceAmt`, report) ?? null
+    };
+    const min = optionalNumber(price.minPriceAmt, `assetPrices[${index}].minPriceAmt`, report);
+    const max = optionalNumber(price.maxPriceAmt, `assetPrices[${index}].maxPriceAmt`, report);
+    if (min === undefined) delete normalized.minPriceAmt; else normalized.minPriceAmt = min;
+    if (max === undefined) delete normalized.maxPriceAmt; else normalized.maxPriceAmt = max;
+    return normalized;
+  });
+}
+
+/**
+ * Converts one raw AMP v2 asset into the typed Activity model. Unknown fields
+ * are kept as-is; known fields are coerced to their declared types, and
+ * anything missing or malformed is reported rather than passed through.
+ */
+export function normalizeActivity(raw: unknown): { activity: Activity; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const source = isObject(raw) ? raw : {};
+  const assetGuid = typeof source.assetGuid === 'string' ? source.assetGuid : undefined;
+  const report: IssueSink = (field, problem, detail) => {
+    issues.push({ ...(assetGuid && { assetGuid }), field, problem, ...(detail && { detail }) });
+  };
+
+  if (!isObject(raw)) {
+    report('asset', 'malformed', 'expected an object');
+  }
+  if (!assetGuid) report('assetGuid', 'missing');
+
+  const assetName = optionalString(source.assetName, 'assetName', report);
+  if (!assetName) report('assetName', 'missing');
+
+  const activity: Activity = {
+    ...source,
+    assetGuid: assetGuid || '',
+    assetName: assetName || ''
+  };
+
+  const assign = <K extends keyof Activity>(key: K, value: Activity[K] | undefined) => {
+    if (value === undefined) {
+      delete activity[key];
+    } else {
+      activity[key] = value;
+    }
+  };
+
+  assign('place', normalizePlace(source.place, report));
+  assign('activityStartDate', optionalDate(source.activityStartDate, 'activityStartDate', report));
+  assign('activityEndDate', optionalDate(source.activityEndDate, 'activityEndDate', report));
+  assign('salesStartDate', optionalDate(source.salesStartDate, 'salesStartDate', report));
+  assign('salesEndDate', optionalDate(source.salesEndDate, 'salesEndDate', report));
+  assign('salesStatus', optionalString(source.salesStatus, 'salesStatus', report));
+  assign('regReqMinAge', optionalNumber(source.regReqMinAge, 'regReqMinAge', report));
+  assign('regReqMaxAge', optionalNumber(source.regReqMaxAge, 'regReqMaxAge', report));
+  assign('timezone', optionalString(source.timezone, 'timezone', report));
+  assign('registrationUrlAdr', optionalString(source.registrationUrlAdr, 'registrationUrlAdr', report));
+  assign('homePageUrlAdr', optionalString(source.homePageUrlAdr, 'homePageUrlAdr', report));
+  assign('logoUrlAdr', optionalString(source.logoUrlAdr, 'logoUrlAdr', report));
+
+  assign('assetDescriptions', objectArray<AssetDescription>(source.assetDescriptions, 'assetDescriptions', report,
+    item => typeof item.description === 'string'));
+  assign('assetCategories', objectArray<AssetCategory>(source.assetCategories, 'assetCategories', report,
+    item => isObject(item.category)));
+  assign('assetTopics', objectArray<AssetTopic>(source.assetTopics, 'assetTopics', report,
+    item => isObject(item.topic)));
+  assign('assetTags', objectArray<AssetTag>(source.assetTags, 'assetTags', report,
+    item => isObject(item.tag)));
+  assign('assetAttributes', objectArray<AssetAttribute>(source.assetAttributes, 'assetAttributes', report,
+    item => isObject(item.attribute)));
+  assign('assetImages', objectArray<AssetImage>(source.assetImages, 'assetImages', report,
+    item => typeof item.imageUrlAdr === 'string'));
+  assign('assetChildren', objectArray<AssetChild>(source.assetChildren, 'assetChildren', report,
+    item => typeof (item.childAssetGuid || item.asset?.assetGuid || item.assetGuid) === 'string'));
+  assign('assetComponents', objectArray<AssetChild>(source.assetComponents, 'assetComponents', report,
+    item => typeof (item.childAssetGuid || item.asset?.assetGuid || item.assetGuid) === 'string'));
+  assign('assetPrices', normalizePrices(source.assetPrices, report));
+
+  if (source.organization !== undefined && !isObject(source.organization)) {
+    report('organization', 'malformed', 'expected an object');
+    delete activity.organization;
+  }
+
+  return { activity, issues };
+}
+
+export function normalizeSearchResponse(raw: any): SearchResponse {
+  const issues: ValidationIssue[] = [];
+  let rawResults: unknown[] = [];
+
+  if (Array.isArray(raw?.results)) {
+    rawResults = raw.results;
+  } else if (raw?.results !== undefined) {
+    issues.push({ field: 'results', problem: 'malformed', detail: 'expected an array' });
+  }
+
+  const results = rawResults.map(item => {
+    const normalized = normalizeActivity(item);
+    issues.push(...normalized.issues);
+    return normalized.activity;
+  });
+
+  const response: SearchResponse = {
+    ...raw,
+    total_results: typeof raw?.total_results === 'number' ? raw.total_results : Number(raw?.total_results) || results.length,
+    items_per_page: typeof raw?.items_per_page === 'number' ? raw.items_per_page : Number(raw?.items_per_page) || results.length,
+    start_index: typeof raw?.start_index === 'number' ? raw.start_index : Number(raw?.start_index) || 0,
+    results
+  };
+
+  if (issues.length > 0) {
+    response.validation_issues = issues;
+  }
+  return response;
+}
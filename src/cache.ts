@@ -0,0 +1,463 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+import { CacheEntry } from './types/active-network.js';
+
+// Kinds of cached response; each has its own TTL because they change at different rates
+export type CacheKind = 'search' | 'details' | 'facets';
+
+export type CacheTtls = Record<CacheKind, number>;
+
+export type CacheBackend = 'memory' | 'disk';
+
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  search: 5 * 60 * 1000,
+  details: 30 * 60 * 1000,
+  facets: 6 * 60 * 60 * 1000
+};
+
+export interface CacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+  // How long past its TTL an entry may still be served while it is refreshed
+  maxStaleMs: number;
+}
+
+export const DEFAULT_CACHE_LIMITS: CacheLimits = {
+  maxEntries: 500,
+  maxBytes: 50 * 1024 * 1024,
+  maxStaleMs: 60 * 60 * 1000
+};
+
+export interface CacheStats {
+  backend: string;
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  maxStaleMs: number;
+  hits: number;
+  // Hits served past their TTL; included in hits
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  hitRate: number;
+}
+
+export interface CacheLookup extends CacheEntry {
+  // Past its TTL but within maxStaleMs; the caller should refresh it
+  stale: boolean;
+}
+
+/**
+ * Response cache shared by all sessions. get() counts a hit or a miss and
+ * drops entries more than maxStaleMs past their TTL; set() evicts least
+ * recently used entries to stay within the entry and byte limits.
+ */
+export interface ResponseCache {
+  readonly kind: string;
+  // True when entries survive a restart without being saved in the state file
+  readonly durable: boolean;
+  get(key: string): Promise<CacheLookup | undefined>;
+  set(key: string, data: any, ttl: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  keys(): string[];
+  // Unexpired entries, for persisting a non-durable cache
+  snapshot(): Array<[string, CacheEntry]>;
+  restore(entries: Array<[string, CacheEntry]>): void;
+  stats(): CacheStats;
+  // Called after set, delete and clear; returns an unsubscribe function
+  onChange(listener: () => void): () => void;
+}
+
+// Parameters whose case and spacing the Active Network API ignores
+const LOCATION_PARAMS = new Set(['near', 'city', 'state', 'zip', 'country', 'lat_lon', 'bbox', 'geo_points']);
+
+function canonicalValue(value: any, key?: string): any {
+  if (Array.isArray(value)) {
+    const items = value.map(item => canonicalValue(item)).filter(item => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const name of Object.keys(value).sort()) {
+      const normalized = canonicalValue(value[name], name);
+      if (normalized !== undefined) result[name] = normalized;
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+  if (typeof value === 'string') {
+    let text = value.trim().replace(/\s+/g, ' ');
+    if (key && LOCATION_PARAMS.has(key)) {
+      text = text.toLowerCase().replace(/\s*,\s*/g, ',');
+    }
+    return text || undefined;
+  }
+  return value ?? undefined;
+}
+
+/**
+ * Cache key for a request of the given kind. Keys are sorted and empty values
+ * dropped, and location parameters are compared without regard to case or
+ * spacing, so equivalent requests share one entry. A scope, when given, keeps
+ * one caller's entries apart so they can be cleared on their own.
+ */
+export function canonicalCacheKey(kind: CacheKind, params: Record<string, any>, scope?: string): string {
+  return `${kind}:${scope ? `${scope}:` : ''}${JSON.stringify(canonicalValue(params) ?? {})}`;
+}
+
+// Keys matching a glob where `*` stands for any run of characters
+export function matchCacheKeys(cache: ResponseCache, pattern: string): string[] {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  const regex = new RegExp(`^${escaped.join('.*')}$`, 'i');
+  return cache.keys().filter(key => regex.test(key));
+}
+
+interface IndexEntry {
+  timestamp: Date;
+  ttl: number;
+  bytes: number;
+}
+
+function isExpired(entry: { timestamp: Date; ttl: number }, now = Date.now()): boolean {
+  return now - entry.timestamp.getTime() > entry.ttl;
+}
+
+function byteSize(data: any): number {
+  return Buffer.byteLength(JSON.stringify(data) ?? '', 'utf8');
+}
+
+/**
+ * Bookkeeping shared by the backends: an insertion-ordered index used as the
+ * LRU list, byte accounting and the hit/miss/eviction counters.
+ */
+abstract class LruIndex<T extends IndexEntry> {
+  protected index = new Map<string, T>();
+  protected bytes = 0;
+  protected counters = { hits: 0, staleHits: 0, misses: 0, evictions: 0, expirations: 0 };
+  private listeners = new Set<() => void>();
+
+  constructor(protected limits: CacheLimits) {}
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  protected emitChange(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  keys(): string[] {
+    return Array.from(this.index.keys());
+  }
+
+  // Too old to serve even as a stale response
+  protected isDiscardable(entry: { timestamp: Date; ttl: number }, now = Date.now()): boolean {
+    return now - entry.timestamp.getTime() > entry.ttl + this.limits.maxStaleMs;
+  }
+
+  // Counts a hit and reports whether it is stale
+  protected recordHit(entry: { timestamp: Date; ttl: number }): boolean {
+    const stale = isExpired(entry);
+    this.counters.hits++;
+    if (stale) this.counters.staleHits++;
+    return stale;
+  }
+
+  protected touch(key: string, entry: T): void {
+    this.index.delete(key);
+    this.index.set(key, entry);
+  }
+
+  protected insert(key: string, entry: T): string[] {
+    this.remove(key);
+    this.index.set(key, entry);
+    this.bytes += entry.bytes;
+    return this.evict();
+  }
+
+  protected remove(key: string): T | undefined {
+    const entry = this.index.get(key);
+    if (!entry) return undefined;
+    this.index.delete(key);
+    this.bytes -= entry.bytes;
+    return entry;
+  }
+
+  // Drops least recently used entries until both limits hold; returns their keys
+  private evict(): string[] {
+    const evicted: string[] = [];
+    for (const key of this.index.keys()) {
+      if (this.index.size <= this.limits.maxEntries && this.bytes <= this.limits.maxBytes) break;
+      this.remove(key);
+      this.counters.evictions++;
+      evicted.push(key);
+    }
+    return evicted;
+  }
+
+  protected baseStats(backend: string): CacheStats {
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      backend,
+      entries: this.index.size,
+      bytes: this.bytes,
+      maxEntries: this.limits.maxEntries,
+      maxBytes: this.limits.maxBytes,
+      maxStaleMs: this.limits.maxStaleMs,
+      ...this.counters,
+      hitRate: lookups > 0 ? this.counters.hits / lookups : 0
+    };
+  }
+}
+
+interface MemoryEntry extends IndexEntry {
+  data: any;
+}
+
+export class LruMemoryCache extends LruIndex<MemoryEntry> implements ResponseCache {
+  readonly kind = 'memory';
+  readonly durable = false;
+
+  constructor(limits: CacheLimits = DEFAULT_CACHE_LIMITS) {
+    super(limits);
+  }
+
+  async get(key: string): Promise<CacheLookup | undefined> {
+    const entry = this.index.get(key);
+    if (!entry) {
+      this.counters.misses++;
+      return undefined;
+    }
+    if (this.isDiscardable(entry)) {
+      this.remove(key);
+      this.counters.expirations++;
+      this.counters.misses++;
+      return undefined;
+    }
+
+    const stale = this.recordHit(entry);
+    this.touch(key, entry);
+    return { data: entry.data, timestamp: entry.timestamp, ttl: entry.ttl, stale };
+  }
+
+  async set(key: string, data: any, ttl: number): Promise<void> {
+    this.store(key, { data, timestamp: new Date(), ttl, bytes: byteSize(data) });
+    this.emitChange();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const removed = this.remove(key) !== undefined;
+    if (removed) this.emitChange();
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    this.index.clear();
+    this.bytes = 0;
+    this.emitChange();
+  }
+
+  snapshot(): Array<[string, CacheEntry]> {
+    const now = Date.now();
+    return Array.from(this.index.entries())
+      .filter(([, entry]) => !this.isDiscardable(entry, now))
+      .map(([key, { data, timestamp, ttl }]) => [key, { data, timestamp, ttl }]);
+  }
+
+  restore(entries: Array<[string, CacheEntry]>): void {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (!this.isDiscardable(entry, now)) {
+        this.store(key, { ...entry, bytes: byteSize(entry.data) });
+      }
+    }
+  }
+
+  stats(): CacheStats {
+    return this.baseStats(this.kind);
+  }
+
+  private store(key: string, entry: MemoryEntry): void {
+    // An entry larger than the whole budget would only evict everything else
+    if (entry.bytes > this.limits.maxBytes) {
+      this.remove(key);
+      return;
+    }
+    this.insert(key, entry);
+  }
+}
+
+// Entry files are '<sha1 of key>.cache.json'; only these are ever read or deleted
+const ENTRY_SUFFIX = '.cache.json';
+const ENTRY_FILE = /^[0-9a-f]{40}\.cache\.json$/;
+
+/**
+ * Keeps each entry in its own JSON file under the cache directory, named by a
+ * hash of the key. The index is rebuilt from the directory on first use, so
+ * cached responses survive restarts.
+ */
+export class DiskCache extends LruIndex<IndexEntry> implements ResponseCache {
+  readonly kind = 'disk';
+  readonly durable = true;
+  private ready: Promise<void>;
+
+  constructor(private dir: string, limits: CacheLimits = DEFAULT_CACHE_LIMITS) {
+    super(limits);
+    // An unreadable cache directory costs warm entries, not the server
+    this.ready = this.loadIndex().catch(error => {
+      logger.error('Failed to load disk cache index, starting empty', { dir: this.dir, error });
+      this.index.clear();
+      this.bytes = 0;
+    });
+  }
+
+  async get(key: string): Promise<CacheLookup | undefined> {
+    await this.ready;
+    const entry = this.index.get(key);
+    if (!entry) {
+      this.counters.misses++;
+      return undefined;
+    }
+    if (this.isDiscardable(entry)) {
+      await this.delete(key);
+      this.counters.expirations++;
+      this.counters.misses++;
+      return undefined;
+    }
+
+    try {
+      const record = JSON.parse(await fs.readFile(this.fileFor(key), 'utf8'));
+      const stale = this.recordHit(entry);
+      this.touch(key, entry);
+      return { data: record.data, timestamp: entry.timestamp, ttl: entry.ttl, stale };
+    } catch {
+      // File removed or damaged behind our back
+      this.remove(key);
+      this.counters.misses++;
+      return undefined;
+    }
+  }
+
+  async set(key: string, data: any, ttl: number): Promise<void> {
+    await this.ready;
+    const record = { key, data, timestamp: new Date(), ttl };
+    const text = JSON.stringify(record);
+    const bytes = Buffer.byteLength(text, 'utf8');
+    if (bytes > this.limits.maxBytes) {
+      await this.delete(key);
+      return;
+    }
+
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(key);
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmpFile, text, 'utf8');
+    await fs.rename(tmpFile, file);
+
+    const evicted = this.insert(key, { timestamp: record.timestamp, ttl, bytes });
+    await Promise.all(evicted.map(evictedKey => this.unlink(evictedKey)));
+    this.emitChange();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await this.ready;
+    if (!this.remove(key)) return false;
+    await this.unlink(key);
+    this.emitChange();
+    return true;
+  }
+
+  async clear(): Promise<void> {
+    await this.ready;
+    const keys = this.keys();
+    this.index.clear();
+    this.bytes = 0;
+    await Promise.all(keys.map(key => this.unlink(key)));
+    this.emitChange();
+  }
+
+  snapshot(): Array<[string, CacheEntry]> {
+    return [];
+  }
+
+  restore(): void {
+    // Entries already live on disk
+  }
+
+  stats(): CacheStats {
+    return this.baseStats(this.kind);
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${createHash('sha1').update(key).digest('hex')}${ENTRY_SUFFIX}`);
+  }
+
+  private async unlink(key: string): Promise<void> {
+    await fs.unlink(this.fileFor(key)).catch(() => undefined);
+  }
+
+  private async loadIndex(): Promise<void> {
+    let files: string[];
+    try {
+      // The directory may be shared, so anything not named like an entry is left alone
+      files = (await fs.readdir(this.dir)).filter(file => ENTRY_FILE.test(file));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    const records: Array<{ key: string; timestamp: Date; ttl: number; bytes: number; file: string }> = [];
+    for (const file of files) {
+      const filePath = path.join(this.dir, file);
+      try {
+        const text = await fs.readFile(filePath, 'utf8');
+        const record = JSON.parse(text);
+        const entry = { timestamp: new Date(record.timestamp), ttl: Number(record.ttl) };
+        if (typeof record.key !== 'string') {
+          await fs.unlink(filePath);
+          continue;
+        }
+        // Named like an entry but not for the key it holds; not ours to delete
+        if (this.fileFor(record.key) !== filePath) continue;
+        if (this.isDiscardable(entry)) {
+          await this.unlink(record.key);
+          continue;
+        }
+        records.push({ key: record.key, ...entry, bytes: Buffer.byteLength(text, 'utf8'), file: filePath });
+      } catch {
+        // Damaged entry written by an earlier run
+        await fs.unlink(filePath).catch(() => undefined);
+      }
+    }
+
+    // Oldest first, so the most recently written entries are the last evicted
+    records.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    for (const { key, timestamp, ttl, bytes } of records) {
+      const evicted = this.insert(key, { timestamp, ttl, bytes });
+      await Promise.all(evicted.map(evictedKey => this.unlink(evictedKey)));
+    }
+  }
+}
+
+export interface CacheConfig extends CacheLimits {
+  backend: CacheBackend;
+  // Where the disk backend keeps its entries
+  dir: string;
+}
+
+// Builds the configured backend; settings are validated by loadConfig
+export function createResponseCache(config: CacheConfig): ResponseCache {
+  const limits: CacheLimits = {
+    maxEntries: config.maxEntries,
+    maxBytes: config.maxBytes,
+    maxStaleMs: config.maxStaleMs
+  };
+  return config.backend === 'disk' ? new DiskCache(config.dir, limits) : new LruMemoryCache(limits);
+}
@@ -0,0 +1,238 @@
+import { promises as fs, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export const CASSETTE_MODES: CassetteMode[] = ['record', 'replay'];
+
+export interface CassetteConfig {
+  // No cassette is used when unset
+  file?: string;
+  mode: CassetteMode;
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    path: string;
+    // Query parameters without api_key
+    params: Record<string, string>;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    data: unknown;
+  };
+  recordedAt: string;
+}
+
+export interface CassetteFile {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+const CASSETTE_VERSION = 1;
+
+// Never written to a cassette, so files can be attached to bug reports
+const REDACTED_PARAMS = new Set(['api_key']);
+
+// Response headers the client acts on; everything else is left out
+const KEPT_HEADERS = ['content-type', 'retry-after'];
+
+// Recordings are written shortly after the traffic stops, or sooner on busy servers
+const FLUSH_DELAY_MS = 1000;
+const FLUSH_EVERY = 50;
+
+function requestParams(config: InternalAxiosRequestConfig): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const name of Object.keys(config.params || {}).sort()) {
+    const value = config.params[name];
+    if (value !== undefined && value !== null && !REDACTED_PARAMS.has(name)) {
+      params[name] = String(value);
+    }
+  }
+  return params;
+}
+
+function requestKey(method: string, requestPath: string, params: Record<string, string>): string {
+  return `${method.toUpperCase()} ${requestPath} ${JSON.stringify(params)}`;
+}
+
+/**
+ * Records API traffic to a JSON file, or serves it back without touching the
+ * network. Installed as an axios adapter, so every attempt is captured exactly
+ * as sent, retries included. Replay returns the recorded responses for a
+ * request in order and repeats the last one once they run out.
+ */
+export class Cassette {
+  private interactions: CassetteInteraction[];
+  private replayPositions = new Map<string, number>();
+  private writeChain: Promise<void> = Promise.resolve();
+  private unsaved = 0;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(readonly filePath: string, readonly mode: CassetteMode, interactions: CassetteInteraction[] = []) {
+    this.interactions = interactions;
+    if (mode === 'record') {
+      // Catches exits that skip shutdown(), such as uncaught errors
+      process.on('exit', () => this.flushSync());
+    }
+  }
+
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  wrap(adapter: AxiosAdapter): AxiosAdapter {
+    return this.mode === 'replay'
+      ? (config) => this.replay(config)
+      : (config) => this.record(config, adapter);
+  }
+
+  /**
+   * Writes the interactions recorded so far. Recording calls this after a
+   * short pause or every FLUSH_EVERY interactions, so the file is rewritten in
+   * one atomic write per batch rather than per request.
+   */
+  flush(): Promise<void> {
+    this.clearFlushTimer();
+    if (this.mode === 'record' && this.unsaved > 0) {
+      this.unsaved = 0;
+      const text = this.serialize();
+      this.writeChain = this.writeChain
+        .then(() => this.writeAtomic(text))
+        .catch(error => logger.error('Failed to write cassette', { file: this.filePath, error }));
+    }
+    return this.writeChain;
+  }
+
+  private async record(config: InternalAxiosRequestConfig, adapter: AxiosAdapter): Promise<AxiosResponse> {
+    try {
+      const response = await adapter(config);
+      this.append(config, response);
+      return response;
+    } catch (error) {
+      // Error statuses are part of the traffic worth replaying
+      if (axios.isAxiosError(error) && error.response) {
+        this.append(config, error.response);
+      }
+      throw error;
+    }
+  }
+
+  private append(config: InternalAxiosRequestConfig, response: AxiosResponse): void {
+    const headers: Record<string, string> = {};
+    for (const name of KEPT_HEADERS) {
+      const value = response.headers?.[name];
+      if (value !== undefined && value !== null) headers[name] = String(value);
+    }
+
+    this.interactions.push({
+      request: {
+        method: (config.method || 'get').toUpperCase(),
+        path: config.url || '',
+        params: requestParams(config)
+      },
+      response: { status: response.status, headers, data: response.data },
+      recordedAt: new Date().toISOString()
+    });
+
+    this.unsaved++;
+    if (this.unsaved >= FLUSH_EVERY) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  private serialize(): string {
+    const file: CassetteFile = { version: CASSETTE_VERSION, interactions: this.interactions };
+    return JSON.stringify(file, null, 2);
+  }
+
+  // Last-chance write from the exit handler, where only synchronous work runs
+  private flushSync(): void {
+    this.clearFlushTimer();
+    if (this.unsaved === 0) return;
+    this.unsaved = 0;
+    try {
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, this.serialize(), 'utf8');
+      renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      logger.error('Failed to write cassette', { file: this.filePath, error });
+    }
+  }
+
+  private async writeAtomic(text: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, text, 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  private async replay(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const method = (config.method || 'get').toUpperCase();
+    const params = requestParams(config);
+    const key = requestKey(method, config.url || '', params);
+    const matches = this.interactions.filter(i => requestKey(i.request.method, i.request.path, i.request.params) === key);
+    if (matches.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `No recorded response in ${this.filePath} for ${method} ${config.url} ${new URLSearchParams(params)}`
+      );
+    }
+
+    const position = this.replayPositions.get(key) ?? 0;
+    this.replayPositions.set(key, position + 1);
+    const { status, headers, data } = matches[Math.min(position, matches.length - 1)].response;
+
+    const response: AxiosResponse = { status, statusText: '', headers, data, config };
+    const validateStatus = config.validateStatus;
+    if (validateStatus && !validateStatus(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        response
+      );
+    }
+    return response;
+  }
+}
+
+/**
+ * Opens the configured cassette, or returns undefined when no file is set.
+ * Record mode starts a new file; replay requires an existing one.
+ */
+export function createCassette(config: CassetteConfig): Cassette | undefined {
+  const filePath = config.file;
+  if (!filePath) return undefined;
+  if (config.mode === 'record') {
+    return new Cassette(filePath, 'record');
+  }
+
+  let file: CassetteFile;
+  try {
+    file = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot read cassette ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (file.version !== CASSETTE_VERSION || !Array.isArray(file.interactions)) {
+    throw new McpError(ErrorCode.InvalidParams, `${filePath} is not a version ${CASSETTE_VERSION} cassette`);
+  }
+  return new Cassette(filePath, 'replay', file.interactions);
+}
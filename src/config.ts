@@ -0,0 +1,328 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_BASE_URL, DEFAULT_TIMEOUT_MS } from './active-network-client.js';
+import { CacheBackend, CacheTtls, DEFAULT_CACHE_LIMITS, DEFAULT_CACHE_TTLS } from './cache.js';
+import { CASSETTE_MODES, CassetteConfig } from './cassette.js';
+import { LOG_LEVELS, LogLevel } from './logger.js';
+import { DEFAULT_METRICS_HOST } from './metrics.js';
+import { DEFAULT_RATE_LIMIT } from './rate-limiter.js';
+import { DEFAULT_USER_ID, dataDirectory, StorageBackend, USER_ID_PATTERN } from './storage.js';
+
+export interface ServerConfig {
+  apiKey?: string;
+  baseUrl: string;
+  // Per-attempt timeout for AMP API requests
+  requestTimeoutMs: number;
+  // Preferences new users start with, and what manage_preferences reset restores
+  defaults: {
+    location: string;
+    radius: number;
+  };
+  rateLimit: {
+    perSecond: number;
+    burst: number;
+    // 0 means unlimited
+    perDay: number;
+  };
+  retry: {
+    maxRetries: number;
+  };
+  cache: {
+    backend: CacheBackend;
+    dir: string;
+    maxEntries: number;
+    maxBytes: number;
+    maxStaleMs: number;
+    ttls: CacheTtls;
+  };
+  storage: {
+    backend: StorageBackend;
+    dataDir: string;
+  };
+  // Searches kept per user
+  historyLimit: number;
+  // Users allowed to read active://sessions; unset means nobody. The stdio
+  // client is the 'default' user.
+  adminUsers?: string[];
+  // 'user:token' pairs; an HTTP client connects as a user only with its bearer token
+  userTokens?: string[];
+  logging: {
+    level: LogLevel;
+    // Fraction of debug entries written
+    debugSampleRate: number;
+  };
+  // Records API traffic to, or replays it from, cassette.file
+  cassette: CassetteConfig;
+  // Standalone /metrics endpoint; off unless a port is set
+  metrics: {
+    host: string;
+    port?: number;
+  };
+}
+
+export type ConfigSource = 'default' | 'file' | `env:${string}`;
+
+export interface LoadedConfig {
+  config: ServerConfig;
+  // Config file that was read, if any
+  file?: string;
+  // Where each setting's value came from, by dotted path
+  sources: Record<string, ConfigSource>;
+}
+
+interface Setting {
+  path: string;
+  env?: string;
+  type: 'string' | 'number' | 'integer' | 'list';
+  default?: unknown;
+  min?: number;
+  max?: number;
+  // Allowed values for enumerated strings
+  values?: string[];
+  // Format every list item must match, with a description for errors
+  pattern?: RegExp;
+  patternHint?: string;
+  // Never shown by get_server_config
+  secret?: boolean;
+}
+
+const SETTINGS: Setting[] = [
+  { path: 'apiKey', env: 'ACTIVE_NETWORK_API_KEY', type: 'string', secret: true },
+  { path: 'baseUrl', env: 'ACTIVE_NETWORK_BASE_URL', type: 'string', default: DEFAULT_BASE_URL },
+  { path: 'requestTimeoutMs', env: 'ACTIVE_NETWORK_REQUEST_TIMEOUT', type: 'integer', default: DEFAULT_TIMEOUT_MS, min: 1 },
+  { path: 'defaults.location', env: 'DEFAULT_LOCATION', type: 'string', default: 'Vancouver,BC,CA' },
+  { path: 'defaults.radius', env: 'DEFAULT_RADIUS', type: 'number', default: 25, min: 1, max: 500 },
+  { path: 'rateLimit.perSecond', env: 'ACTIVE_NETWORK_RATE_PER_SECOND', type: 'number', default: DEFAULT_RATE_LIMIT.perSecond, min: 0.01 },
+  { path: 'rateLimit.burst', env: 'ACTIVE_NETWORK_RATE_BURST', type: 'integer', default: DEFAULT_RATE_LIMIT.burst, min: 1 },
+  { path: 'rateLimit.perDay', env: 'ACTIVE_NETWORK_RATE_PER_DAY', type: 'integer', default: 0, min: 0 },
+  { path: 'retry.maxRetries', env: 'ACTIVE_NETWORK_MAX_RETRIES', type: 'integer', default: 3, min: 0, max: 10 },
+  { path: 'cache.backend', env: 'ACTIVE_NETWORK_CACHE', type: 'string', default: 'memory', values: ['memory', 'disk'] },
+  // Defaults to the cache folder of the data directory
+  { path: 'cache.dir', env: 'ACTIVE_NETWORK_CACHE_DIR', type: 'string' },
+  { path: 'cache.maxEntries', env: 'ACTIVE_NETWORK_CACHE_MAX_ENTRIES', type: 'integer', default: DEFAULT_CACHE_LIMITS.maxEntries, min: 1 },
+  { path: 'cache.maxBytes', env: 'ACTIVE_NETWORK_CACHE_MAX_BYTES', type: 'integer', default: DEFAULT_CACHE_LIMITS.maxBytes, min: 1 },
+  // 0 turns stale-while-revalidate off
+  { path: 'cache.maxStaleMs', env: 'ACTIVE_NETWORK_CACHE_MAX_STALE', type: 'integer', default: DEFAULT_CACHE_LIMITS.maxStaleMs, min: 0 },
+  { path: 'cache.ttls.search', env: 'ACTIVE_NETWORK_CACHE_TTL_SEARCH', type: 'integer', default: DEFAULT_CACHE_TTLS.search, min: 1 },
+  { path: 'cache.ttls.details', env: 'ACTIVE_NETWORK_CACHE_TTL_DETAILS', type: 'integer', default: DEFAULT_CACHE_TTLS.details, min: 1 },
+  { path: 'cache.ttls.facets', env: 'ACTIVE_NETWORK_CACHE_TTL_FACETS', type: 'integer', default: DEFAULT_CACHE_TTLS.facets, min: 1 },
+  { path: 'storage.backend', env: 'ACTIVE_NETWORK_STORAGE', type: 'string', default: 'json', values: ['json', 'memory'] },
+  { path: 'storage.dataDir', env: 'ACTIVE_NETWORK_DATA_DIR', type: 'string' },
+  { path: 'historyLimit', env: 'ACTIVE_NETWORK_HISTORY_LIMIT', type: 'integer', default: 100, min: 1, max: 10000 },
+  {
+    path: 'adminUsers',
+    env: 'ACTIVE_NETWORK_ADMIN_USERS',
+    type: 'list',
+    pattern: USER_ID_PATTERN,
+    patternHint: 'user ids of 1-64 letters, digits, or . _ @ -'
+  },
+  {
+    path: 'userTokens',
+    env: 'ACTIVE_NETWORK_USER_TOKENS',
+    type: 'list',
+    secret: true,
+    pattern: /^[\w.@-]{1,64}:\S{16,}$/,
+    patternHint: "'user:token' pairs with tokens of at least 16 characters"
+  },
+  { path: 'logging.level', env: 'ACTIVE_NETWORK_LOG_LEVEL', type: 'string', default: 'info', values: LOG_LEVELS },
+  { path: 'logging.debugSampleRate', env: 'ACTIVE_NETWORK_LOG_SAMPLE_RATE', type: 'number', default: 1, min: 0, max: 1 },
+  { path: 'cassette.file', env: 'ACTIVE_NETWORK_CASSETTE', type: 'string' },
+  { path: 'cassette.mode', env: 'ACTIVE_NETWORK_CASSETTE_MODE', type: 'string', default: 'replay', values: CASSETTE_MODES },
+  { path: 'metrics.host', env: 'ACTIVE_NETWORK_METRICS_HOST', type: 'string', default: DEFAULT_METRICS_HOST },
+  { path: 'metrics.port', env: 'ACTIVE_NETWORK_METRICS_PORT', type: 'integer', min: 0, max: 65535 }
+];
+
+const REDACTED = '[REDACTED]';
+
+// package.json is one level above build/ and src/, two above build-test/src/
+function readServerVersion(): string {
+  for (const candidate of ['../package.json', '../../package.json']) {
+    try {
+      const pkg = JSON.parse(readFileSync(new URL(candidate, import.meta.url), 'utf8'));
+      if (pkg.name === 'active-network-server') return pkg.version;
+    } catch {
+      // Try the next location
+    }
+  }
+  return '0.0.0';
+}
+
+export const SERVER_VERSION = readServerVersion();
+
+function flagValue(argv: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const inline = argv.find(arg => arg.startsWith(prefix));
+  if (inline) return inline.slice(prefix.length);
+
+  const index = argv.indexOf(`--${name}`);
+  return index !== -1 ? argv[index + 1] : undefined;
+}
+
+function getPath(object: any, dotted: string): unknown {
+  return dotted.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), object);
+}
+
+function setPath(object: any, dotted: string, value: unknown): void {
+  const keys = dotted.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce((node, key) => (node[key] ??= {}), object);
+  parent[last] = value;
+}
+
+// Dotted paths of every leaf in a parsed config file, for spotting unknown settings
+function leafPaths(object: Record<string, unknown>, prefix = ''): string[] {
+  return Object.entries(object).flatMap(([key, value]) => {
+    const dotted = prefix + key;
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? leafPaths(value as Record<string, unknown>, `${dotted}.`)
+      : [dotted];
+  });
+}
+
+function describeSetting(setting: Setting): string {
+  switch (setting.type) {
+    case 'list':
+      return `a list of ${setting.patternHint || 'strings'}`;
+    case 'string':
+      return setting.values ? `one of ${setting.values.join(', ')}` : 'a non-empty string';
+    default: {
+      const noun = setting.type === 'integer' ? 'an integer' : 'a number';
+      if (setting.min !== undefined && setting.max !== undefined) return `${noun} from ${setting.min} to ${setting.max}`;
+      if (setting.min !== undefined) return `${noun} of at least ${setting.min}`;
+      return noun;
+    }
+  }
+}
+
+// Environment variables are strings; turn them into the type the setting expects
+function fromEnv(setting: Setting, raw: string): unknown {
+  switch (setting.type) {
+    case 'list':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    case 'number':
+    case 'integer':
+      return raw.trim() === '' ? NaN : Number(raw);
+    default:
+      return setting.values ? raw.toLowerCase() : raw;
+  }
+}
+
+function isValid(setting: Setting, value: unknown): boolean {
+  switch (setting.type) {
+    case 'list':
+      return Array.isArray(value) && value.every(item =>
+        typeof item === 'string' && item.length > 0 && (!setting.pattern || setting.pattern.test(item)));
+    case 'string':
+      return typeof value === 'string' && value.length > 0 && (!setting.values || setting.values.includes(value));
+    default:
+      return typeof value === 'number'
+        && Number.isFinite(value)
+        && (setting.type === 'number' || Number.isInteger(value))
+        && (setting.min === undefined || value >= setting.min)
+        && (setting.max === undefined || value <= setting.max);
+  }
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Cannot read config file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Config file ${file} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new McpError(ErrorCode.InvalidParams, `Config file ${file} must contain a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Builds the server configuration from defaults, a JSON config file and
+ * environment variables, in increasing order of precedence. The file is
+ * named by --config or ACTIVE_NETWORK_CONFIG; otherwise config.json in the
+ * data directory is used when it exists. Every problem is collected and
+ * reported in a single error, so a bad config fails at startup, not mid-request.
+ */
+export function loadConfig(argv: string[] = [], env: NodeJS.ProcessEnv = process.env): LoadedConfig {
+  const explicit = flagValue(argv, 'config') || env.ACTIVE_NETWORK_CONFIG;
+  const fallback = path.join(dataDirectory(env), 'config.json');
+  const file = explicit ? path.resolve(explicit) : existsSync(fallback) ? fallback : undefined;
+  const fileValues = file ? readConfigFile(file) : {};
+
+  const known = new Set(SETTINGS.map(setting => setting.path));
+  const errors = leafPaths(fileValues)
+    .filter(dotted => !known.has(dotted))
+    .map(dotted => `unknown setting '${dotted}' in ${file}`);
+
+  const config: any = {};
+  const sources: Record<string, ConfigSource> = {};
+  for (const setting of SETTINGS) {
+    const raw = setting.env ? env[setting.env] : undefined;
+    let value: unknown;
+    let source: ConfigSource;
+    if (raw !== undefined && raw !== '') {
+      value = fromEnv(setting, raw);
+      source = `env:${setting.env}`;
+    } else if (getPath(fileValues, setting.path) !== undefined) {
+      value = getPath(fileValues, setting.path);
+      source = 'file';
+    } else {
+      value = setting.default;
+      source = 'default';
+    }
+
+    if (value === undefined) continue;
+    if (!isValid(setting, value)) {
+      const shown = setting.secret ? REDACTED : source === 'file' ? JSON.stringify(value) : `'${raw}'`;
+      const origin = source === 'file' ? `${shown} in ${file}` : `${shown} from ${setting.env}`;
+      errors.push(`${setting.path} must be ${describeSetting(setting)} (got ${origin})`);
+      continue;
+    }
+    setPath(config, setting.path, value);
+    sources[setting.path] = source;
+  }
+
+  const tokenUsers = (config.userTokens as string[] | undefined)?.map(entry => entry.slice(0, entry.indexOf(':'))) || [];
+  if (tokenUsers.includes(DEFAULT_USER_ID)) {
+    errors.push(`userTokens may not use the reserved user id '${DEFAULT_USER_ID}'`);
+  }
+  const tokens = (config.userTokens as string[] | undefined)?.map(entry => entry.slice(entry.indexOf(':') + 1)) || [];
+  if (new Set(tokens).size !== tokens.length) {
+    errors.push('userTokens contains the same token more than once');
+  }
+
+  if (errors.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid configuration: ${errors.join('; ')}`);
+  }
+
+  // Locations that depend on other settings
+  if (!config.storage.dataDir) {
+    config.storage.dataDir = dataDirectory(env);
+    sources['storage.dataDir'] = 'default';
+  }
+  if (!config.cache.dir) {
+    config.cache.dir = path.join(config.storage.dataDir, 'cache');
+    sources['cache.dir'] = 'default';
+  }
+
+  return { config: config as ServerConfig, file, sources };
+}
+
+// The effective configuration with secrets replaced, for get_server_config
+export function redactConfig(config: ServerConfig): ServerConfig {
+  const copy = JSON.parse(JSON.stringify(config));
+  for (const setting of SETTINGS) {
+    if (setting.secret && getPath(copy, setting.path) !== undefined) {
+      setPath(copy, setting.path, REDACTED);
+    }
+  }
+  return copy;
+}
@@ -0,0 +1,105 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ActiveNetworkClient, FacetQueryOptions, rankFacetValues } from './active-network-client.js';
+import { FacetValue, SearchParams } from './types/active-network.js';
+
+export type FacetName = 'topic' | 'category' | 'city' | 'state' | 'month' | 'meta_interest' | 'attribute';
+
+interface FacetDefinition {
+  // AMP v2 facet field
+  field: string;
+  // Search filter that narrows the result set to one value of this facet
+  narrow: (value: string) => SearchParams;
+}
+
+function monthWindow(month: string): SearchParams {
+  const [year, mm] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, mm, 0)).getUTCDate();
+  return { start_date: `${month}-01..${month}-${String(lastDay).padStart(2, '0')}` };
+}
+
+export const FACETS: Record<FacetName, FacetDefinition> = {
+  topic: { field: 'topicName', narrow: value => ({ topic_name: value }) },
+  category: { field: 'categoryName', narrow: value => ({ category_name: value }) },
+  city: { field: 'place.cityName', narrow: value => ({ city: value }) },
+  state: { field: 'place.stateProvinceCode', narrow: value => ({ state: value }) },
+  month: { field: 'activityStartDate', narrow: monthWindow },
+  meta_interest: { field: 'metaInterestName', narrow: value => ({ meta_interest_name: value }) },
+  attribute: { field: 'attributeValue', narrow: value => ({ attributes: value }) }
+};
+
+export const FACET_NAMES = Object.keys(FACETS) as FacetName[];
+
+export interface FacetSuggestion {
+  facet: FacetName;
+  value: string;
+  count: number;
+  // The current filters plus the one that selects this value
+  filters: SearchParams;
+}
+
+export interface FacetExploration {
+  filters: SearchParams;
+  facets: Partial<Record<FacetName, FacetValue[]>>;
+  suggestions: FacetSuggestion[];
+}
+
+// Start dates come back per day; month drill-down wants them per month
+function bucketByMonth(values: FacetValue[]): FacetValue[] {
+  const months = new Map<string, number>();
+  for (const { value, count } of values) {
+    const month = /^\d{4}-\d{2}/.exec(value)?.[0];
+    if (month) months.set(month, (months.get(month) || 0) + count);
+  }
+  return Array.from(months, ([value, count]) => ({ value, count }));
+}
+
+// True when the filters already select exactly what the narrowing would add
+function isApplied(narrowing: SearchParams, filters: SearchParams): boolean {
+  return Object.entries(narrowing).every(([key, value]) =>
+    String(filters[key as keyof SearchParams] ?? '').toLowerCase() === String(value).toLowerCase()
+  );
+}
+
+export function parseFacetNames(value: unknown): FacetName[] {
+  const names = Array.isArray(value) ? value : [];
+  const unknown = names.filter(name => typeof name !== 'string' || !(name in FACETS));
+  if (names.length === 0 || unknown.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `facets must be a non-empty list of: ${FACET_NAMES.join(', ')}${unknown.length ? ` (unknown: ${unknown.join(', ')})` : ''}`
+    );
+  }
+  return Array.from(new Set(names)) as FacetName[];
+}
+
+/**
+ * Counts several facets under one set of filters in a single API call and
+ * proposes the filters for the next narrowing step.
+ */
+export async function exploreFacets(
+  client: ActiveNetworkClient,
+  filters: SearchParams,
+  names: FacetName[],
+  options: FacetQueryOptions & { suggestionsPerFacet?: number } = {}
+): Promise<FacetExploration> {
+  const raw = await client.getFacets(names.map(name => FACETS[name].field), filters, options);
+
+  const exploration: FacetExploration = { filters, facets: {}, suggestions: [] };
+  const perFacet = options.suggestionsPerFacet ?? 3;
+
+  for (const name of names) {
+    const values = raw[FACETS[name].field] || [];
+    const ranked = rankFacetValues(name === 'month' ? bucketByMonth(values) : values, options);
+    exploration.facets[name] = ranked;
+
+    const candidates = ranked
+      .map(({ value, count }) => ({ value, count, narrowing: FACETS[name].narrow(value) }))
+      .filter(({ narrowing }) => !isApplied(narrowing, filters));
+    for (const { value, count, narrowing } of candidates.slice(0, perFacet)) {
+      exploration.suggestions.push({ facet: name, value, count, filters: { ...filters, ...narrowing } });
+    }
+  }
+
+  exploration.suggestions.sort((a, b) => b.count - a.count);
+  return exploration;
+}
@@ -0,0 +1,259 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+import { PROMETHEUS_CONTENT_TYPE } from './metrics.js';
+import { DEFAULT_USER_ID, USER_ID_PATTERN } from './storage.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface TransportConfig {
+  mode: TransportMode;
+  host: string;
+  port: number;
+}
+
+export interface HttpTransportHooks {
+  // User for a new connection, or undefined for an anonymous one; throws HttpError to refuse it
+  authenticate(req: IncomingMessage): string | undefined;
+  // Connects a new MCP server instance to the transport; returns its cleanup.
+  // When it throws, it must already have released anything it set up.
+  connect(transport: SSEServerTransport, userId: string | undefined): Promise<() => Promise<void>>;
+  health(): Record<string, unknown>;
+  // Prometheus text for GET /metrics
+  metrics(): string;
+}
+
+const SSE_PATH = '/sse';
+const MESSAGE_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const METRICS_PATH = '/metrics';
+
+function flagValue(argv: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const inline = argv.find(arg => arg.startsWith(prefix));
+  if (inline) return inline.slice(prefix.length);
+
+  const index = argv.indexOf(`--${name}`);
+  if (index !== -1 && argv[index + 1] && !argv[index + 1].startsWith('--')) {
+    return argv[index + 1];
+  }
+  return undefined;
+}
+
+/**
+ * Reads the transport from --transport, --host and --port, falling back to
+ * ACTIVE_NETWORK_TRANSPORT, ACTIVE_NETWORK_HTTP_HOST and
+ * ACTIVE_NETWORK_HTTP_PORT. `--http` is shorthand for `--transport http`.
+ */
+export function parseTransportConfig(argv: string[], env: NodeJS.ProcessEnv): TransportConfig {
+  const mode = argv.includes('--http')
+    ? 'http'
+    : (flagValue(argv, 'transport') || env.ACTIVE_NETWORK_TRANSPORT || 'stdio').toLowerCase();
+  if (mode !== 'stdio' && mode !== 'http') {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown transport '${mode}'; use stdio or http`);
+  }
+
+  const rawPort = flagValue(argv, 'port') || env.ACTIVE_NETWORK_HTTP_PORT || '3000';
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid HTTP port '${rawPort}'`);
+  }
+
+  return {
+    mode,
+    host: flagValue(argv, 'host') || env.ACTIVE_NETWORK_HTTP_HOST || '127.0.0.1',
+    port
+  };
+}
+
+// Refuses an HTTP request with the given status
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Token-to-user lookup from the 'user:token' entries of the userTokens setting
+export function parseUserTokens(entries: string[] = []): Map<string, string> {
+  return new Map(entries.map(entry => {
+    const separator = entry.indexOf(':');
+    return [entry.slice(separator + 1), entry.slice(0, separator)];
+  }));
+}
+
+/**
+ * User id for a new SSE connection, taken from its bearer token. X-User-Id
+ * or ?user= are only accepted alongside a token for that same user, so a
+ * client cannot claim someone else's preferences and history. Connections
+ * without a token get a context of their own.
+ */
+export function authenticateUser(req: IncomingMessage, tokens: ReadonlyMap<string, string>): string | undefined {
+  const header = req.headers['x-user-id'];
+  const claimed = (Array.isArray(header) ? header[0] : header)
+    || new URL(req.url || '/', 'http://localhost').searchParams.get('user')
+    || undefined;
+  if (claimed !== undefined && !USER_ID_PATTERN.test(claimed)) {
+    throw new HttpError(400, 'User id must be 1-64 letters, digits, or . _ @ -');
+  }
+
+  const authorization = req.headers.authorization;
+  if (!authorization) {
+    if (claimed !== undefined) {
+      throw new HttpError(401, 'Connecting as a named user requires a bearer token');
+    }
+    return undefined;
+  }
+
+  const token = /^Bearer\s+(\S+)$/i.exec(authorization)?.[1];
+  const userId = token ? tokens.get(token) : undefined;
+  // The stdio user is never reachable over HTTP, whatever the token table says
+  if (!userId || userId === DEFAULT_USER_ID) {
+    throw new HttpError(401, 'Invalid bearer token');
+  }
+  if (claimed !== undefined && claimed !== userId) {
+    throw new HttpError(403, `Token does not belong to user '${claimed}'`);
+  }
+  return userId;
+}
+
+/**
+ * Serves MCP over SSE: each GET /sse opens a session with its own MCP server
+ * instance, and the client posts requests to /messages?sessionId=<id>.
+ */
+export class McpHttpServer {
+  private httpServer: http.Server;
+  private sessions = new Map<string, { transport: SSEServerTransport; cleanup: () => Promise<void> }>();
+  private closing = false;
+
+  constructor(private config: TransportConfig, private hooks: HttpTransportHooks) {
+    this.httpServer = http.createServer((req, res) => {
+      this.route(req, res).catch(error => {
+        logger.error('HTTP request failed', { method: req.method, path: req.url?.split('?')[0], error });
+        if (!res.headersSent) res.writeHead(500).end('Internal server error');
+      });
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  listen(): Promise<{ host: string; port: number }> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.config.port, this.config.host, () => {
+        this.httpServer.off('error', reject);
+        const address = this.httpServer.address();
+        const port = typeof address === 'object' && address ? address.port : this.config.port;
+        resolve({ host: this.config.host, port });
+      });
+    });
+  }
+
+  /**
+   * Stops accepting connections, closes every open session and waits for
+   * in-flight requests up to timeoutMs before dropping remaining sockets.
+   */
+  async close(timeoutMs = 5000): Promise<void> {
+    if (this.closing) return;
+    this.closing = true;
+
+    const stopped = new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map(session => session.cleanup()));
+    this.httpServer.closeIdleConnections();
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        this.httpServer.closeAllConnections();
+        resolve();
+      }, timeoutMs);
+      timer.unref();
+    });
+    await Promise.race([stopped, timeout]);
+    clearTimeout(timer);
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+      const body = { status: this.closing ? 'shutting_down' : 'ok', sessions: this.sessions.size, ...this.hooks.health() };
+      res.writeHead(this.closing ? 503 : 200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === METRICS_PATH) {
+      res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE }).end(this.hooks.metrics());
+      return;
+    }
+
+    if (this.closing) {
+      res.writeHead(503).end('Server is shutting down');
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      let userId: string | undefined;
+      try {
+        userId = this.hooks.authenticate(req);
+      } catch (error) {
+        if (!(error instanceof HttpError)) throw error;
+        res.writeHead(error.status, error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {}).end(error.message);
+        return;
+      }
+
+      const transport = new SSEServerTransport(MESSAGE_PATH, res);
+      const id = transport.sessionId;
+      const closeSession = (cleanup: () => Promise<void>) => {
+        cleanup().catch(error => logger.warn('Failed to close HTTP session', { sessionId: id, error }));
+      };
+      // Registered before connecting so a client that drops mid-handshake is noticed
+      let disconnected = false;
+      res.on('close', () => {
+        disconnected = true;
+        const session = this.sessions.get(id);
+        if (session) {
+          this.sessions.delete(id);
+          closeSession(session.cleanup);
+        }
+      });
+
+      let cleanup: () => Promise<void>;
+      try {
+        cleanup = await this.hooks.connect(transport, userId);
+      } catch (error) {
+        logger.error('Failed to open HTTP session', { sessionId: id, error });
+        // The SSE stream may already be open, in which case it can only be ended
+        if (res.headersSent) {
+          res.end();
+        } else {
+          res.writeHead(500).end('Internal server error');
+        }
+        return;
+      }
+      if (disconnected || this.closing) {
+        closeSession(cleanup);
+        return;
+      }
+      this.sessions.set(id, { transport, cleanup });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGE_PATH) {
+      const session = this.sessions.get(url.searchParams.get('sessionId') || '');
+      if (!session) {
+        res.writeHead(404).end('Unknown or expired session');
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end('Not found');
+  }
+}
@@ -0,0 +1,154 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+export const LOG_LEVELS = Object.keys(LEVEL_ORDER) as LogLevel[];
+
+export interface RequestContext {
+  requestId: string;
+  [key: string]: string;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  // Fraction of debug entries written, for high-volume request tracing
+  debugSampleRate: number;
+  write?: (line: string) => void;
+}
+
+// Field names whose values are never logged
+const SECRET_FIELD = /api[_-]?key|authorization|cookie|password|secret|token/i;
+// key=value pairs inside URLs and messages
+const SECRET_QUERY = /\b(api[_-]?key|token|secret|password)=[^&\s"']+/gi;
+const REDACTED = '[REDACTED]';
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function newRequestId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+/**
+ * Runs fn with a correlation id that every log entry written during it, and
+ * every API request it makes, carries. Extra fields are added to the entries.
+ */
+export function withRequestContext<T>(fields: Partial<RequestContext>, fn: () => T): T {
+  return requestContext.run({ requestId: newRequestId(), ...fields } as RequestContext, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  const code = (error as any).code;
+  const status = (error as any).response?.status;
+  // Never the whole object: axios errors carry the request config, api_key included
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined && { code }),
+    ...(status !== undefined && { status })
+  };
+}
+
+/**
+ * Writes one JSON object per line to stderr, which stays free for logs since
+ * stdout carries the stdio transport. Secrets are removed from every entry:
+ * fields named like credentials, key=value pairs in strings, and any value
+ * registered with addSecret().
+ */
+export class Logger {
+  private secrets = new Set<string>();
+
+  constructor(private options: LoggerOptions) {}
+
+  get level(): LogLevel {
+    return this.options.level;
+  }
+
+  // Applies the validated config once it is loaded; until then entries use the defaults
+  configure(options: Partial<Omit<LoggerOptions, 'write'>>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  addSecret(value: string): void {
+    if (value) this.secrets.add(value);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.options.level] && level !== 'silent';
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    // Sampling keeps per-request tracing affordable on busy servers
+    if (this.isEnabled('debug') && Math.random() < this.options.debugSampleRate) {
+      this.write('debug', message, fields);
+    }
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.write('error', message, fields);
+  }
+
+  redact(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+      let text = value.replace(SECRET_QUERY, `$1=${REDACTED}`);
+      for (const secret of this.secrets) {
+        text = text.split(secret).join(REDACTED);
+      }
+      return text;
+    }
+    if (value instanceof Error) {
+      return this.redact(serializeError(value), depth);
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (depth >= 6) {
+      return '[Truncated]';
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item, depth + 1));
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_FIELD.test(key) ? REDACTED : this.redact(item, depth + 1)
+    ]));
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, fields: Record<string, unknown> = {}): void {
+    if (!this.isEnabled(level)) return;
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: this.redact(message),
+      ...requestContext.getStore(),
+      ...(this.redact(fields) as Record<string, unknown>)
+    };
+    const line = JSON.stringify(entry);
+    if (this.options.write) {
+      this.options.write(line);
+    } else {
+      process.stderr.write(`${line}\n`);
+    }
+  }
+}
+
+// Shared logger; the server applies the configured level and sampling at startup
+export const logger = new Logger({ level: 'info', debugSampleRate: 1 });
@@ -0,0 +1,241 @@
+import http from 'node:http';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Record<string, string>;
+
+// Seconds; covers cache hits (~1ms) through retried upstream calls
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(readonly name: string, readonly help: string, protected labelNames: string[]) {}
+
+  protected key(labels: Labels): string {
+    return JSON.stringify(this.labelNames.map(name => labels[name] ?? ''));
+  }
+
+  protected labelsFromKey(key: string): Labels {
+    const values: string[] = JSON.parse(key);
+    return Object.fromEntries(this.labelNames.map((name, i) => [name, values[i]]));
+  }
+
+  abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private values = new Map<string, number>();
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.key(labels)) ?? 0;
+  }
+
+  samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${this.name}${formatLabels(this.labelsFromKey(key))} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, number>();
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${this.name}${formatLabels(this.labelsFromKey(key))} ${formatValue(value)}`);
+  }
+}
+
+interface HistogramSeries {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, labelNames: string[], private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    this.series.forEach((series, key) => {
+      const labels = this.labelsFromKey(key);
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${series.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${series.count}`);
+    });
+    return lines;
+  }
+}
+
+/**
+ * Holds every metric and renders them in the Prometheus text exposition
+ * format. Collectors run before each render, for gauges that are read from
+ * live state (queue depth, cache size) rather than updated as events happen.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+  private collectors = new Set<() => void>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  // Returns a function that removes the collector
+  addCollector(collect: () => void): () => void {
+    this.collectors.add(collect);
+    return () => this.collectors.delete(collect);
+  }
+
+  render(): string {
+    this.collectors.forEach(collect => collect());
+    return `${Array.from(this.metrics.values(), metric => metric.render()).join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new McpError(ErrorCode.InternalError, `Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const toolDuration = metrics.histogram(
+  'active_network_tool_duration_seconds',
+  'Tool call latency by tool and outcome',
+  ['tool', 'outcome']
+);
+export const toolErrors = metrics.counter(
+  'active_network_tool_errors_total',
+  'Failed tool calls by tool and MCP error code',
+  ['tool', 'code']
+);
+export const upstreamRequests = metrics.counter(
+  'active_network_upstream_requests_total',
+  'AMP API responses by HTTP status; network failures and timeouts are labelled by error code',
+  ['status']
+);
+export const upstreamDuration = metrics.histogram(
+  'active_network_upstream_request_duration_seconds',
+  'AMP API request latency, excluding time spent waiting for the rate limiter'
+);
+export const upstreamRetries = metrics.counter(
+  'active_network_upstream_retries_total',
+  'AMP API requests retried, by the status that caused the retry',
+  ['status']
+);
+export const rateLimitWait = metrics.histogram(
+  'active_network_rate_limit_wait_seconds',
+  'Time requests spent queued in the rate limiter'
+);
+export const rateLimitQueueDepth = metrics.gauge(
+  'active_network_rate_limit_queue_depth',
+  'Requests currently waiting for a rate limiter token'
+);
+export const cacheRequests = metrics.counter(
+  'active_network_cache_requests_total',
+  'Response cache lookups by kind and result (hit, stale or miss)',
+  ['kind', 'result']
+);
+export const cacheEntries = metrics.gauge(
+  'active_network_cache_entries',
+  'Entries held in the response cache'
+);
+
+/**
+ * Records one tool call. Calls to tools that do not exist share the 'unknown'
+ * label, so clients cannot create a series per made-up name.
+ */
+export function recordToolCall(tool: string, durationMs: number, error?: unknown): void {
+  const code = error instanceof McpError ? ErrorCode[error.code] ?? String(error.code) : 'InternalError';
+  const label = error instanceof McpError && error.code === ErrorCode.MethodNotFound ? 'unknown' : tool;
+  toolDuration.observe(durationMs / 1000, { tool: label, outcome: error === undefined ? 'success' : 'error' });
+  if (error !== undefined) toolErrors.inc({ tool: label, code });
+}
+
+export interface MetricsEndpointConfig {
+  host: string;
+  port: number;
+}
+
+export const DEFAULT_METRICS_HOST = '127.0.0.1';
+
+// Serves GET /metrics; resolves with the listening server once bound
+export function serveMetrics(config: MetricsEndpointConfig, registry: MetricsRegistry = metrics): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && new URL(req.url || '/', 'http://localhost').pathname === '/metrics') {
+      res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE }).end(registry.render());
+      return;
+    }
+    res.writeHead(404).end('Not found');
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.port, config.host, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
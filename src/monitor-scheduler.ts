@@ -0,0 +1,239 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ActiveNetworkClient } from './active-network-client.js';
+import { logger, withRequestContext } from './logger.js';
+import { Activity, SearchParams } from './types/active-network.js';
+
+export interface MonitorRun {
+  checkedAt: Date;
+  totalResults: number;
+  baseline: boolean;
+  newGuids: string[];
+  removedGuids: string[];
+  changedGuids: string[];
+  // True when the results ran past MAX_WATCHED_RESULTS; only the first ones are compared
+  truncated: boolean;
+  error?: string;
+}
+
+export interface ScheduledTask {
+  id: string;
+  type: string;
+  schedule: string;
+  intervalMs: number;
+  lastRun?: Date;
+  nextRun: Date;
+  params: {
+    search_params: SearchParams;
+    notify_on_changes: boolean;
+    // Name of the saved search the parameters were taken from
+    saved_search?: string;
+  };
+  runCount: number;
+  history: MonitorRun[];
+}
+
+export type MonitorChangeListener = (task: ScheduledTask, run: MonitorRun) => void;
+
+const INTERVAL_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+const MIN_INTERVAL_MS = 60 * 1000;
+const MAX_HISTORY = 50;
+// Each check pages through the results up to this many (ten pages of 50)
+export const MAX_WATCHED_RESULTS = 500;
+
+/**
+ * Parses a check interval such as "30m", "2h" or "1d". A bare number is
+ * read as minutes.
+ */
+export function parseInterval(interval: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?\s*$/i.exec(interval);
+  if (!match) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid check_interval '${interval}'. Use a number followed by s, m, h or d (e.g. "30m")`
+    );
+  }
+
+  const unit = (match[2] || 'm').toLowerCase();
+  const ms = Math.round(parseFloat(match[1]) * INTERVAL_UNITS[unit]);
+  if (ms < MIN_INTERVAL_MS) {
+    throw new McpError(ErrorCode.InvalidParams, 'check_interval must be at least 1 minute');
+  }
+  return ms;
+}
+
+// Fields that, when they differ between runs, mark an activity as changed
+function fingerprint(activity: Activity): string {
+  return JSON.stringify([
+    activity.assetName,
+    activity.activityStartDate,
+    activity.activityEndDate,
+    activity.place?.placeName,
+    activity.place?.cityName,
+    activity.registrationUrlAdr,
+    activity.salesStatus,
+    activity.assetPrices
+  ]);
+}
+
+/**
+ * Re-runs saved searches on an interval and records which assetGuids
+ * appeared, disappeared or changed since the previous check.
+ */
+export class MonitorScheduler {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private snapshots = new Map<string, Map<string, string>>();
+  private listeners: MonitorChangeListener[] = [];
+
+  constructor(
+    private client: ActiveNetworkClient,
+    private tasks: ScheduledTask[]
+  ) {}
+
+  onChange(listener: MonitorChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  schedule(
+    id: string,
+    searchParams: SearchParams,
+    checkInterval: string,
+    notifyOnChanges: boolean,
+    savedSearch?: string
+  ): ScheduledTask {
+    const intervalMs = parseInterval(checkInterval);
+    const task: ScheduledTask = {
+      id,
+      type: 'search_monitor',
+      schedule: checkInterval,
+      intervalMs,
+      nextRun: new Date(),
+      params: {
+        search_params: { ...searchParams },
+        notify_on_changes: notifyOnChanges,
+        ...(savedSearch && { saved_search: savedSearch })
+      },
+      runCount: 0,
+      history: []
+    };
+
+    this.tasks.push(task);
+    // The first check runs right away to record the baseline result set
+    this.arm(task, 0);
+    return task;
+  }
+
+  unschedule(id: string): boolean {
+    const index = this.tasks.findIndex(t => t.id === id);
+    if (index === -1) return false;
+
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.snapshots.delete(id);
+    this.tasks.splice(index, 1);
+    return true;
+  }
+
+  get(id: string): ScheduledTask | undefined {
+    return this.tasks.find(t => t.id === id);
+  }
+
+  stopAll(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private arm(task: ScheduledTask, delay: number): void {
+    task.nextRun = new Date(Date.now() + delay);
+    const timer = setTimeout(async () => {
+      // Timer-driven checks get their own correlation id, tagged with the monitor
+      await withRequestContext({ monitor: task.id }, () => this.check(task));
+      if (this.timers.has(task.id)) {
+        this.arm(task, task.intervalMs);
+      }
+    }, delay);
+    // Monitors should never keep the process alive on their own
+    timer.unref();
+    this.timers.set(task.id, timer);
+  }
+
+  private async check(task: ScheduledTask): Promise<MonitorRun> {
+    const previous = this.snapshots.get(task.id);
+    const checkedAt = new Date();
+    let run: MonitorRun;
+
+    try {
+      // Always query the API; a cached page would hide the changes being watched for
+      const result = await this.client.searchAll(
+        { ...task.params.search_params, per_page: 50, current_page: 1 },
+        MAX_WATCHED_RESULTS,
+        { cache: false }
+      );
+
+      const current = new Map<string, string>();
+      for (const activity of result.results || []) {
+        if (activity.assetGuid) {
+          current.set(activity.assetGuid, fingerprint(activity));
+        }
+      }
+
+      run = {
+        checkedAt,
+        totalResults: result.total_results || 0,
+        baseline: !previous,
+        newGuids: [],
+        removedGuids: [],
+        changedGuids: [],
+        truncated: result.truncated
+      };
+
+      if (previous) {
+        current.forEach((print, guid) => {
+          const before = previous.get(guid);
+          if (before === undefined) {
+            run.newGuids.push(guid);
+          } else if (before !== print) {
+            run.changedGuids.push(guid);
+          }
+        });
+        previous.forEach((_, guid) => {
+          if (!current.has(guid)) run.removedGuids.push(guid);
+        });
+      }
+
+      this.snapshots.set(task.id, current);
+    } catch (error) {
+      logger.warn('Monitor check failed', { monitor: task.id, error });
+      run = {
+        checkedAt,
+        totalResults: 0,
+        baseline: !previous,
+        newGuids: [],
+        removedGuids: [],
+        changedGuids: [],
+        truncated: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    task.lastRun = checkedAt;
+    task.runCount++;
+    task.history.push(run);
+    if (task.history.length > MAX_HISTORY) {
+      task.history = task.history.slice(-MAX_HISTORY);
+    }
+
+    const hasChanges = run.newGuids.length > 0 || run.removedGuids.length > 0 || run.changedGuids.length > 0;
+    if (hasChanges) {
+      this.listeners.forEach(listener => listener(task, run));
+    }
+
+    return run;
+  }
+}
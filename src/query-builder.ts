@@ -0,0 +1,146 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SearchParams, UserPreferences } from './types/active-network.js';
+
+export type GeoMode = 'near' | 'lat_lon' | 'bbox' | 'polygon';
+
+export interface AdvancedQuery {
+  query?: string;
+  topics?: string[];
+  categories?: string[];
+  // How multiple topics, categories, attributes and tags combine (default: OR)
+  combine?: 'AND' | 'OR';
+  date_window?: { start?: string; end?: string };
+  geo_search?: {
+    mode?: GeoMode;
+    near?: string;
+    lat_lon?: string;
+    radius?: number;
+    bbox?: string;
+    geo_points?: string;
+  };
+  attributes?: string[];
+  tags?: string[];
+  exists?: string[];
+  not_exists?: string[];
+  kids?: boolean;
+  sort?: string;
+  use_preferences?: boolean;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value) ? value : [value];
+  const strings = items.map(item => typeof item === 'string' ? item.trim() : '').filter(Boolean);
+  if (strings.length !== items.length) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be a list of non-empty strings`);
+  }
+  return strings;
+}
+
+function checkDate(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+function requireField(geo: Record<string, any>, field: string, mode: GeoMode): string {
+  if (typeof geo[field] !== 'string' || !geo[field]) {
+    throw new McpError(ErrorCode.InvalidParams, `geo_search.${field} is required for geo mode '${mode}'`);
+  }
+  return geo[field];
+}
+
+/**
+ * Builds SearchParams for advanced_search. Lists are joined with the chosen
+ * boolean operator, which AMP v2 accepts inside a single parameter value
+ * (e.g. topic_name=Running OR Triathlon). Preferences fill in location,
+ * radius and child handling only where the query leaves them open.
+ */
+export function buildAdvancedQuery(input: AdvancedQuery, preferences: UserPreferences): SearchParams {
+  const combine = (input.combine || 'OR').toUpperCase();
+  if (combine !== 'AND' && combine !== 'OR') {
+    throw new McpError(ErrorCode.InvalidParams, "combine must be 'AND' or 'OR'");
+  }
+  const join = (values: string[]) => values.join(` ${combine} `);
+  const usePreferences = input.use_preferences !== false;
+  const params: SearchParams = {};
+
+  if (typeof input.query === 'string' && input.query.trim()) {
+    params.query = input.query.trim();
+  }
+
+  const topics = stringList(input.topics, 'topics');
+  const categories = stringList(input.categories, 'categories');
+  if (topics.length) params.topic_name = join(topics);
+  if (categories.length) params.category_name = join(categories);
+
+  // Favorite categories only steer an otherwise open-ended search
+  if (usePreferences && !params.query && !topics.length && !categories.length && preferences.favoriteCategories?.length) {
+    params.category_name = preferences.favoriteCategories.join(' OR ');
+  }
+
+  const start = checkDate(input.date_window?.start, 'date_window.start');
+  const end = checkDate(input.date_window?.end, 'date_window.end');
+  if (start && end && start > end) {
+    throw new McpError(ErrorCode.InvalidParams, 'date_window.start must not be after date_window.end');
+  }
+  if (start || end) {
+    params.start_date = `${start || ''}..${end || ''}`;
+  }
+
+  const geo = (input.geo_search && typeof input.geo_search === 'object' ? input.geo_search : {}) as Record<string, any>;
+  const mode: GeoMode | undefined = geo.mode
+    || (geo.geo_points ? 'polygon' : geo.bbox ? 'bbox' : geo.lat_lon ? 'lat_lon' : geo.near ? 'near' : undefined);
+
+  switch (mode) {
+    case 'near':
+      params.near = requireField(geo, 'near', mode);
+      break;
+    case 'lat_lon':
+      params.lat_lon = requireField(geo, 'lat_lon', mode);
+      break;
+    case 'bbox':
+      params.bbox = requireField(geo, 'bbox', mode);
+      break;
+    case 'polygon':
+      params.geo_points = requireField(geo, 'geo_points', mode);
+      break;
+    case undefined:
+      if (usePreferences && preferences.defaultLocation) {
+        params.near = preferences.defaultLocation;
+      }
+      break;
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown geo mode '${mode}'`);
+  }
+
+  // Radius only applies to point searches; bbox and polygon define their own area
+  if (params.near || params.lat_lon) {
+    if (typeof geo.radius === 'number') {
+      params.radius = geo.radius;
+    } else if (usePreferences && preferences.defaultRadius) {
+      params.radius = preferences.defaultRadius;
+    }
+  }
+
+  const attributes = stringList(input.attributes, 'attributes');
+  const tags = stringList(input.tags, 'tags');
+  const exists = stringList(input.exists, 'exists');
+  const notExists = stringList(input.not_exists, 'not_exists');
+  if (attributes.length) params.attributes = join(attributes);
+  if (tags.length) params.tags = join(tags);
+  if (exists.length) params.exists = exists.join(',');
+  if (notExists.length) params.not_exists = notExists.join(',');
+
+  if (input.kids === true) params.kids = true;
+  if (typeof input.sort === 'string') params.sort = input.sort;
+  if (usePreferences && preferences.excludeChildren !== undefined) {
+    params.exclude_children = preferences.excludeChildren;
+  }
+
+  return params;
+}
@@ -0,0 +1,162 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export interface RateLimitOptions {
+  // Sustained request rate; the AMP v2 default key allows 2 calls per second
+  perSecond?: number;
+  // Bucket capacity, i.e. how many calls may go out back to back
+  burst?: number;
+  // Daily quota, reset at UTC midnight; 0 or unset means unlimited
+  perDay?: number;
+}
+
+export const DEFAULT_RATE_LIMIT = { perSecond: 2, burst: 1 };
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token-bucket limiter shared by every request a client makes. Concurrent
+ * callers queue in FIFO order instead of racing on a single timestamp.
+ */
+export class TokenBucketRateLimiter {
+  private readonly perSecond: number;
+  private readonly capacity: number;
+  private readonly perDay: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Waiter[] = [];
+  private timer?: NodeJS.Timeout;
+  private dayKey = this.currentDayKey();
+  private dayCount = 0;
+  private totalWaitMs = 0;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.perSecond = options.perSecond && options.perSecond > 0 ? options.perSecond : DEFAULT_RATE_LIMIT.perSecond;
+    this.capacity = options.burst && options.burst > 0 ? options.burst : DEFAULT_RATE_LIMIT.burst;
+    this.perDay = options.perDay && options.perDay > 0 ? options.perDay : 0;
+    this.tokens = this.capacity;
+  }
+
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new McpError(ErrorCode.InvalidRequest, 'Request cancelled'));
+    }
+
+    const queuedAt = Date.now();
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve: () => {
+          this.totalWaitMs += Date.now() - queuedAt;
+          resolve();
+        },
+        reject,
+        signal
+      };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(w => w !== waiter);
+          reject(new McpError(ErrorCode.InvalidRequest, 'Request cancelled'));
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Holds back every queued and future request for at least delayMs, used
+   * when the API reports that we are over its rate limit.
+   */
+  pause(delayMs: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+    this.tokens = 0;
+  }
+
+  getStats() {
+    this.rollDay();
+    return {
+      perSecond: this.perSecond,
+      burst: this.capacity,
+      perDay: this.perDay || null,
+      usedToday: this.dayCount,
+      queueDepth: this.queue.length,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      totalWaitMs: this.totalWaitMs
+    };
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+
+    while (this.queue.length > 0) {
+      this.rollDay();
+      if (this.perDay && this.dayCount >= this.perDay) {
+        const error = new McpError(
+          ErrorCode.InvalidRequest,
+          `Daily API quota of ${this.perDay} requests exhausted. It resets at UTC midnight.`
+        );
+        this.queue.splice(0).forEach(w => this.settle(w, error));
+        return;
+      }
+
+      const waitMs = this.msUntilToken();
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, waitMs);
+        return;
+      }
+
+      this.tokens -= 1;
+      this.dayCount++;
+      this.settle(this.queue.shift()!);
+    }
+  }
+
+  private settle(waiter: Waiter, error?: Error): void {
+    if (waiter.signal && waiter.onAbort) {
+      waiter.signal.removeEventListener('abort', waiter.onAbort);
+    }
+    if (error) {
+      waiter.reject(error);
+    } else {
+      waiter.resolve();
+    }
+  }
+
+  private msUntilToken(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      this.lastRefill = this.pausedUntil;
+      return this.pausedUntil - now;
+    }
+
+    const elapsed = Math.max(0, now - this.lastRefill);
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed / 1000) * this.perSecond);
+    this.lastRefill = now;
+
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) / this.perSecond) * 1000);
+  }
+
+  private rollDay(): void {
+    const key = this.currentDayKey();
+    if (key !== this.dayKey) {
+      this.dayKey = key;
+      this.dayCount = 0;
+    }
+  }
+
+  private currentDayKey(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,57 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+export type TemplateName = 'activity' | 'search' | 'topics' | 'locations';
+
+export interface TemplateMatch {
+  name: TemplateName;
+  value: string;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'active://activity/{assetGuid}',
+    name: 'Activity',
+    description: 'A single activity with fees, by assetGuid',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'active://search/{savedSearchName}',
+    name: 'Saved Search Results',
+    description: 'Current results of a saved search',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'active://topics/{category}',
+    name: 'Topics in Category',
+    description: 'Activity topics with counts within one category',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'active://locations/{state}',
+    name: 'Cities in State',
+    description: 'Cities with activity counts within one state or province',
+    mimeType: 'application/json'
+  }
+];
+
+const TEMPLATE_PATTERN = /^active:\/\/(activity|search|topics|locations)\/([^/?#]+)$/;
+
+/**
+ * Matches a URI against the resource templates. Each template has a single
+ * path variable, which is returned percent-decoded.
+ */
+export function matchResourceTemplate(uri: string): TemplateMatch | undefined {
+  const match = TEMPLATE_PATTERN.exec(uri);
+  if (!match) return undefined;
+
+  try {
+    const value = decodeURIComponent(match[2]).trim();
+    return value ? { name: match[1] as TemplateName, value } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function templateUri(name: TemplateName, value: string): string {
+  return `active://${name}/${encodeURIComponent(value)}`;
+}
@@ -0,0 +1,187 @@
+import { buildFeeTable } from './activity-normalizer.js';
+import { Activity, ActivityDetails, SearchResponse } from './types/active-network.js';
+
+export type ResponseFormat = 'summary' | 'markdown' | 'full';
+
+export const RESPONSE_FORMATS: ResponseFormat[] = ['summary', 'markdown', 'full'];
+
+export interface ActivitySummary {
+  guid: string;
+  name: string;
+  date?: string;
+  place?: string;
+  price?: string;
+  url?: string;
+}
+
+const DESCRIPTION_LIMIT = 500;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+export function parseFormat(value: unknown, fallback: ResponseFormat): ResponseFormat {
+  return RESPONSE_FORMATS.includes(value as ResponseFormat) ? value as ResponseFormat : fallback;
+}
+
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+      }
+      return ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+function cleanDescriptions<T extends Activity>(activity: T): T {
+  if (!activity.assetDescriptions) return activity;
+  return {
+    ...activity,
+    assetDescriptions: activity.assetDescriptions.map(d => ({
+      ...d,
+      description: stripHtml(d.description || '')
+    }))
+  };
+}
+
+function formatPrice(activity: Activity): string | undefined {
+  const amounts = buildFeeTable(activity.assetPrices)
+    .flatMap(fee => [fee.amount, fee.minAmount, fee.maxAmount])
+    .filter((amount): amount is number => typeof amount === 'number');
+  if (amounts.length === 0) return undefined;
+
+  const min = Math.min(...amounts);
+  const max = Math.max(...amounts);
+  const money = (amount: number) => amount === 0 ? 'Free' : `$${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+  return min === max ? money(min) : `${money(min)}–${money(max)}`;
+}
+
+export function summarizeActivity(activity: Activity): ActivitySummary {
+  const start = activity.activityStartDate?.slice(0, 10);
+  const end = activity.activityEndDate?.slice(0, 10);
+  const place = [activity.place?.placeName, activity.place?.cityName, activity.place?.stateProvinceCode]
+    .filter(Boolean)
+    .join(', ');
+
+  const summary: ActivitySummary = {
+    guid: activity.assetGuid,
+    name: activity.assetName
+  };
+  if (start) summary.date = end && end !== start ? `${start} → ${end}` : start;
+  if (place) summary.place = place;
+
+  const price = formatPrice(activity);
+  if (price) summary.price = price;
+
+  const url = activity.registrationUrlAdr || activity.homePageUrlAdr || activity.urlAdr;
+  if (url) summary.url = url;
+  return summary;
+}
+
+function plainDescription(activity: Activity): string | undefined {
+  const text = (activity.assetDescriptions || [])
+    .map(d => stripHtml(d.description || ''))
+    .find(Boolean);
+  if (!text) return undefined;
+  return text.length > DESCRIPTION_LIMIT ? `${text.slice(0, DESCRIPTION_LIMIT)}…` : text;
+}
+
+// Underscore-prefixed keys carry handler metadata (_cached, _note, ...) and survive every format
+function metadata(payload: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(payload).filter(([key]) => key.startsWith('_')));
+}
+
+function escapeCell(value: string | undefined): string {
+  return (value || '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function formatSearchResponse(payload: SearchResponse & Record<string, any>, format: ResponseFormat): string {
+  const results = payload.results || [];
+
+  if (format === 'full') {
+    return JSON.stringify({ ...payload, results: results.map(cleanDescriptions) }, null, 2);
+  }
+
+  const perPage = payload.items_per_page || results.length || 1;
+  const page = Math.floor((payload.start_index || 0) / perPage) + 1;
+  const summaries = results.map(summarizeActivity);
+
+  if (format === 'markdown') {
+    const lines = [
+      `**${summaries.length} of ${payload.total_results} results** (page ${page})`,
+      '',
+      '| Name | Date | Place | Price | GUID |',
+      '| --- | --- | --- | --- | --- |',
+      ...summaries.map(s => {
+        const name = s.url ? `[${escapeCell(s.name)}](${s.url})` : escapeCell(s.name);
+        return `| ${name} | ${escapeCell(s.date)} | ${escapeCell(s.place)} | ${escapeCell(s.price)} | ${s.guid} |`;
+      })
+    ];
+    if (payload.validation_issues?.length) {
+      lines.push('', `_${payload.validation_issues.length} validation issue(s) in the raw results_`);
+    }
+    const meta = metadata(payload);
+    if (meta._note) lines.push('', `_${meta._note}_`);
+    return lines.join('\n');
+  }
+
+  return JSON.stringify({
+    total_results: payload.total_results,
+    returned: summaries.length,
+    page,
+    results: summaries,
+    ...(payload.validation_issues?.length && { validation_issue_count: payload.validation_issues.length }),
+    ...metadata(payload)
+  });
+}
+
+export function formatActivityDetails(payload: ActivityDetails & Record<string, any>, format: ResponseFormat): string {
+  if (format === 'full') {
+    return JSON.stringify(cleanDescriptions(payload), null, 2);
+  }
+
+  const summary = summarizeActivity(payload);
+  const description = plainDescription(payload);
+
+  if (format === 'markdown') {
+    const lines = [`## ${summary.url ? `[${summary.name}](${summary.url})` : summary.name}`, ''];
+    if (summary.date) lines.push(`- **Date:** ${summary.date}`);
+    if (summary.place) lines.push(`- **Place:** ${summary.place}`);
+    if (summary.price) lines.push(`- **Price:** ${summary.price}`);
+    if (payload.salesStatus) lines.push(`- **Registration:** ${payload.salesStatus}`);
+    lines.push(`- **GUID:** ${summary.guid}`);
+    if (description) lines.push('', description);
+    if (payload.fees?.length) {
+      lines.push('', '| Fee | Amount |', '| --- | --- |');
+      payload.fees.forEach(fee => lines.push(`| ${escapeCell(fee.name)} | ${fee.amount ?? ''} |`));
+    }
+    if (payload.components?.length) {
+      lines.push('', '| Component | Date | GUID |', '| --- | --- | --- |');
+      payload.components.forEach(c => lines.push(`| ${escapeCell(c.assetName)} | ${c.startDate?.slice(0, 10) || ''} | ${c.assetGuid} |`));
+    }
+    return lines.join('\n');
+  }
+
+  return JSON.stringify({
+    ...summary,
+    ...(description && { description }),
+    ...(payload.salesStatus && { salesStatus: payload.salesStatus }),
+    ...(payload.fees && { fees: payload.fees }),
+    ...(payload.components && { components: payload.components }),
+    ...(payload.validation_issues?.length && { validation_issue_count: payload.validation_issues.length }),
+    ...metadata(payload)
+  });
+}
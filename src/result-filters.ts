@@ -0,0 +1,170 @@
+import { buildFeeTable } from './activity-normalizer.js';
+import { ActiveNetworkClient, hasNextPage, RequestOptions } from './active-network-client.js';
+import { Activity, SearchParams, SearchResponse } from './types/active-network.js';
+
+export interface PostFilterCriteria {
+  price_range?: { min?: number; max?: number };
+  age_range?: { min?: number; max?: number };
+  has_registration?: boolean;
+  registration_status?: 'open' | 'closed' | 'full';
+}
+
+export interface PostFilter {
+  name: keyof PostFilterCriteria;
+  test: (activity: Activity) => boolean;
+}
+
+export interface PostFilterReport {
+  requested: number;
+  returned: number;
+  scanned: number;
+  pagesFetched: number;
+  removedBy: Record<string, number>;
+  // True when every upstream result was scanned, so no further matches exist
+  exhausted: boolean;
+}
+
+function priceAmounts(activity: Activity): number[] {
+  return buildFeeTable(activity.assetPrices)
+    .flatMap(fee => [fee.amount, fee.minAmount, fee.maxAmount])
+    .filter((amount): amount is number => typeof amount === 'number');
+}
+
+function isPast(date: string | undefined): boolean {
+  return !!date && Date.parse(date) < Date.now();
+}
+
+function isFuture(date: string | undefined): boolean {
+  return !!date && Date.parse(date) > Date.now();
+}
+
+/**
+ * Registration state from salesStatus, falling back to the sales window
+ * dates when a source system leaves salesStatus empty.
+ */
+function registrationState(activity: Activity): 'open' | 'closed' | 'full' | 'unknown' {
+  const status = (activity.salesStatus || '').toLowerCase();
+  if (/sold.?out|full|capacity|wait.?list/.test(status)) return 'full';
+  if (/closed|ended|not.?open|unavailable/.test(status)) return 'closed';
+  if (/open/.test(status)) return 'open';
+
+  if (isPast(activity.salesEndDate) || isFuture(activity.salesStartDate)) return 'closed';
+  if (activity.registrationUrlAdr && (isFuture(activity.salesEndDate) || isPast(activity.salesStartDate))) return 'open';
+  return 'unknown';
+}
+
+function hasRegistration(activity: Activity): boolean {
+  return !!activity.registrationUrlAdr || registrationState(activity) !== 'unknown';
+}
+
+export function buildPostFilters(criteria: PostFilterCriteria): PostFilter[] {
+  const filters: PostFilter[] = [];
+
+  const range = criteria.price_range;
+  if (range && (typeof range.min === 'number' || typeof range.max === 'number')) {
+    const min = typeof range.min === 'number' ? range.min : -Infinity;
+    const max = typeof range.max === 'number' ? range.max : Infinity;
+    // Activities without any price data cannot be shown to be in range
+    filters.push({
+      name: 'price_range',
+      test: activity => priceAmounts(activity).some(amount => amount >= min && amount <= max)
+    });
+  }
+
+  const ages = criteria.age_range;
+  if (ages && (typeof ages.min === 'number' || typeof ages.max === 'number')) {
+    const min = typeof ages.min === 'number' ? ages.min : -Infinity;
+    const max = typeof ages.max === 'number' ? ages.max : Infinity;
+    // Keeps activities whose age requirement overlaps the range; a missing
+    // regReqMinAge or regReqMaxAge means no limit on that side
+    filters.push({
+      name: 'age_range',
+      test: activity => (activity.regReqMinAge ?? -Infinity) <= max && (activity.regReqMaxAge ?? Infinity) >= min
+    });
+  }
+
+  if (typeof criteria.has_registration === 'boolean') {
+    const wanted = criteria.has_registration;
+    filters.push({
+      name: 'has_registration',
+      test: activity => hasRegistration(activity) === wanted
+    });
+  }
+
+  if (criteria.registration_status) {
+    const wanted = criteria.registration_status;
+    filters.push({
+      name: 'registration_status',
+      test: activity => registrationState(activity) === wanted
+    });
+  }
+
+  return filters;
+}
+
+/**
+ * Runs a search and applies client-side filters, fetching further pages until
+ * perPage activities pass or maxPages pages have been scanned. Each activity
+ * is charged to the first filter that rejects it.
+ */
+export async function searchWithPostFilters(
+  client: ActiveNetworkClient,
+  params: SearchParams,
+  filters: PostFilter[],
+  perPage: number,
+  maxPages: number,
+  options: RequestOptions = {}
+): Promise<{ response: SearchResponse; report: PostFilterReport; firstPageParams: SearchParams }> {
+  const report: PostFilterReport = {
+    requested: perPage,
+    returned: 0,
+    scanned: 0,
+    pagesFetched: 0,
+    removedBy: Object.fromEntries(filters.map(f => [f.name, 0])),
+    exhausted: true
+  };
+  const kept: Activity[] = [];
+  let first: SearchResponse | undefined;
+
+  // Without post-filters a single page already holds everything requested
+  const pageSize = filters.length > 0 ? 50 : perPage;
+  const firstPageParams: SearchParams = { ...params, per_page: pageSize };
+  const pages = client.iterateSearchPages(firstPageParams, options);
+
+  const firstPage = firstPageParams.current_page || 1;
+  for await (const page of pages) {
+    first = first || page;
+    report.pagesFetched++;
+
+    const rows = page.results || [];
+    let scannedHere = 0;
+    // Stop at a full page so the report only covers rows that were considered
+    while (scannedHere < rows.length && kept.length < perPage) {
+      const activity = rows[scannedHere++];
+      report.scanned++;
+      const rejectedBy = filters.find(f => !f.test(activity));
+      if (rejectedBy) {
+        report.removedBy[rejectedBy.name]++;
+      } else {
+        kept.push(activity);
+      }
+    }
+
+    if (kept.length >= perPage || report.pagesFetched >= maxPages) {
+      const morePages = hasNextPage(page, firstPage + report.pagesFetched - 1, Math.min(pageSize, 50));
+      report.exhausted = scannedHere === rows.length && !morePages;
+      break;
+    }
+  }
+
+  report.returned = kept.length;
+  return {
+    response: {
+      ...(first || { total_results: 0, start_index: 0 }),
+      items_per_page: perPage,
+      results: kept
+    },
+    report,
+    firstPageParams
+  };
+}
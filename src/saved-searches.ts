@@ -0,0 +1,97 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { Activity, SavedSearch, SearchParams } from './types/active-network.js';
+
+export interface SaveSearchOptions {
+  notes?: string;
+  tags?: string[];
+  // Replace an existing saved search of the same name instead of failing
+  overwrite?: boolean;
+}
+
+export interface SavedSearchRun {
+  baseline: boolean;
+  newGuids: string[];
+  previousRunAt?: Date;
+}
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Named, reusable searches. Each run remembers the assetGuids it returned so
+ * the next run can report which activities are new.
+ */
+export class SavedSearchManager {
+  constructor(private searches: Map<string, SavedSearch>) {}
+
+  save(name: string, params: SearchParams, options: SaveSearchOptions = {}): SavedSearch {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+      throw new McpError(ErrorCode.InvalidParams, `name must be 1-${MAX_NAME_LENGTH} characters`);
+    }
+    if (!params || typeof params !== 'object') {
+      throw new McpError(ErrorCode.InvalidParams, 'search_params is required');
+    }
+
+    const existing = this.searches.get(trimmed);
+    if (existing && !options.overwrite) {
+      throw new McpError(ErrorCode.InvalidRequest, `Saved search '${trimmed}' already exists; pass overwrite to replace it`);
+    }
+
+    const now = new Date();
+    const search: SavedSearch = {
+      name: trimmed,
+      params: { ...params },
+      notes: options.notes,
+      tags: Array.from(new Set((options.tags || []).map(tag => String(tag).trim()).filter(Boolean))),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      // Changed parameters invalidate the previous result set
+      lastRunGuids: [],
+      runCount: 0
+    };
+    this.searches.set(trimmed, search);
+    return search;
+  }
+
+  get(name: string): SavedSearch {
+    const search = this.searches.get(typeof name === 'string' ? name.trim() : '');
+    if (!search) {
+      throw new McpError(ErrorCode.InvalidRequest, `Saved search not found: ${name}`);
+    }
+    return search;
+  }
+
+  has(name: string): boolean {
+    return this.searches.has(typeof name === 'string' ? name.trim() : '');
+  }
+
+  list(tag?: string): SavedSearch[] {
+    return Array.from(this.searches.values())
+      .filter(search => !tag || search.tags.includes(tag))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  delete(name: string): SavedSearch {
+    const search = this.get(name);
+    this.searches.delete(search.name);
+    return search;
+  }
+
+  // Records a run and returns the assetGuids not seen on the previous run
+  recordRun(name: string, results: Activity[]): SavedSearchRun {
+    const search = this.get(name);
+    const guids = results.map(activity => activity.assetGuid).filter(Boolean);
+    const previous = new Set(search.lastRunGuids);
+
+    const run: SavedSearchRun = {
+      baseline: search.runCount === 0,
+      newGuids: search.runCount === 0 ? [] : guids.filter(guid => !previous.has(guid)),
+      previousRunAt: search.lastRunAt
+    };
+
+    search.lastRunAt = new Date();
+    search.lastRunGuids = guids;
+    search.runCount++;
+    return run;
+  }
+}
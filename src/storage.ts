@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from './logger.js';
+import { CacheEntry, SavedSearch, SearchHistoryEntry, UserPreferences } from './types/active-network.js';
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export interface PersistedUserState {
+  userId: string;
+  preferences: UserPreferences;
+  recentSearches: SearchHistoryEntry[];
+}
+
+export interface PersistedState {
+  schemaVersion: number;
+  users: PersistedUserState[];
+  cache: Array<[string, CacheEntry]>;
+  savedSearches: SavedSearch[];
+}
+
+// Owner of state written before preferences and history were kept per user.
+// Reserved for the stdio client; HTTP connections can never claim it.
+export const DEFAULT_USER_ID = 'default';
+
+export const USER_ID_PATTERN = /^[\w.@-]{1,64}$/;
+
+/**
+ * Backend that keeps server state across restarts. Implementations must make
+ * save() atomic so a crash mid-write never leaves a truncated file behind.
+ */
+export interface StateStore {
+  readonly kind: string;
+  load(): Promise<PersistedState | null>;
+  save(state: PersistedState): Promise<void>;
+}
+
+// Each migration upgrades raw state from version N to N + 1
+const MIGRATIONS: Record<number, (raw: any) => any> = {
+  // Version 0 is any state file written before schemaVersion existed
+  0: (raw) => ({
+    ...raw,
+    cache: raw.cache || [],
+    schemaVersion: 1
+  }),
+  1: (raw) => ({
+    ...raw,
+    savedSearches: [],
+    schemaVersion: 2
+  }),
+  2: ({ preferences, recentSearches, ...raw }) => ({
+    ...raw,
+    users: [{ userId: DEFAULT_USER_ID, preferences: preferences || {}, recentSearches: recentSearches || [] }],
+    schemaVersion: 3
+  })
+};
+
+export function migrateState(raw: any): PersistedState {
+  let state = raw && typeof raw === 'object' ? { ...raw } : {};
+  let version = typeof state.schemaVersion === 'number' ? state.schemaVersion : 0;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `State file uses schema version ${version}, but this server only supports up to ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    state = MIGRATIONS[version](state);
+    version = state.schemaVersion;
+  }
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    users: (state.users || []).map((user: any) => ({
+      userId: String(user.userId),
+      preferences: user.preferences || {},
+      recentSearches: (user.recentSearches || []).map((entry: any) => ({
+        ...entry,
+        timestamp: new Date(entry.timestamp)
+      }))
+    })),
+    cache: (state.cache || []).map(([key, entry]: [string, any]) => [
+      key,
+      { ...entry, timestamp: new Date(entry.timestamp) }
+    ]),
+    savedSearches: (state.savedSearches || []).map((search: any) => ({
+      ...search,
+      createdAt: new Date(search.createdAt),
+      updatedAt: new Date(search.updatedAt),
+      lastRunAt: search.lastRunAt ? new Date(search.lastRunAt) : undefined
+    }))
+  };
+}
+
+export class JsonFileStore implements StateStore {
+  readonly kind = 'json';
+  private readonly filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private dataDir: string) {
+    this.filePath = path.join(dataDir, 'state.json');
+  }
+
+  async load(): Promise<PersistedState | null> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      // Keep the unreadable file for inspection rather than overwriting it
+      const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.rename(this.filePath, corruptPath);
+      logger.warn('State file was not valid JSON; moved it aside', { file: corruptPath });
+      return null;
+    }
+
+    return migrateState(raw);
+  }
+
+  save(state: PersistedState): Promise<void> {
+    // Serialize writes so an older snapshot never lands after a newer one
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(() => this.writeAtomic(state));
+    return this.writeChain;
+  }
+
+  private async writeAtomic(state: PersistedState): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(state), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+export class MemoryStore implements StateStore {
+  readonly kind = 'memory';
+  private state: PersistedState | null = null;
+
+  async load(): Promise<PersistedState | null> {
+    return this.state;
+  }
+
+  async save(state: PersistedState): Promise<void> {
+    this.state = state;
+  }
+}
+
+export type StorageBackend = 'json' | 'memory';
+
+// Default data directory, from ACTIVE_NETWORK_DATA_DIR or ~/.active-network-mcp
+export function dataDirectory(env: NodeJS.ProcessEnv = process.env): string {
+  return env.ACTIVE_NETWORK_DATA_DIR || path.join(os.homedir(), '.active-network-mcp');
+}
+
+// Builds the configured backend; the json store keeps state.json in dataDir
+export function createStateStore(config: { backend: StorageBackend; dataDir: string }): StateStore {
+  return config.backend === 'memory' ? new MemoryStore() : new JsonFileStore(config.dataDir);
+}
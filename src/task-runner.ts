@@ -0,0 +1,139 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export type TaskStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BackgroundTask {
+  id: string;
+  type: string;
+  status: TaskStatus;
+  progress: number;
+  params?: any;
+  result?: any;
+  error?: string;
+  startTime: Date;
+  endTime?: Date;
+}
+
+export interface TaskContext {
+  signal: AbortSignal;
+  // Progress is a fraction between 0 and 1
+  reportProgress(progress: number): void;
+}
+
+export type TaskJob = (context: TaskContext) => Promise<any>;
+
+export type TaskStatusListener = (task: BackgroundTask) => void;
+
+const MAX_FINISHED_TASKS = 100;
+
+/**
+ * Runs long jobs in the background so tool calls can return a task id
+ * immediately. Each job receives an AbortSignal that cancel() triggers.
+ */
+export class BackgroundTaskRunner {
+  private controllers = new Map<string, AbortController>();
+  private listeners: TaskStatusListener[] = [];
+
+  constructor(private tasks: Map<string, BackgroundTask>) {}
+
+  // Called whenever a task starts or reaches a final status
+  onStatusChange(listener: TaskStatusListener): void {
+    this.listeners.push(listener);
+  }
+
+  start(id: string, type: string, params: any, job: TaskJob): BackgroundTask {
+    const controller = new AbortController();
+    const task: BackgroundTask = {
+      id,
+      type,
+      status: 'running',
+      progress: 0,
+      params,
+      startTime: new Date()
+    };
+
+    this.tasks.set(id, task);
+    this.controllers.set(id, controller);
+    this.pruneFinished();
+    this.emit(task);
+
+    const context: TaskContext = {
+      signal: controller.signal,
+      reportProgress: (progress: number) => {
+        if (task.status === 'running') {
+          task.progress = Math.max(0, Math.min(1, progress));
+        }
+      }
+    };
+
+    job(context)
+      .then(result => {
+        if (task.status !== 'running') return;
+        task.status = 'completed';
+        task.progress = 1;
+        task.result = result;
+      })
+      .catch(error => {
+        if (task.status !== 'running') return;
+        task.status = 'failed';
+        task.error = error instanceof Error ? error.message : String(error);
+      })
+      .finally(() => {
+        const settledHere = !task.endTime;
+        task.endTime = task.endTime || new Date();
+        this.controllers.delete(id);
+        // Cancelled tasks were already reported by cancel()
+        if (settledHere) this.emit(task);
+      });
+
+    return task;
+  }
+
+  cancel(id: string): BackgroundTask {
+    const task = this.tasks.get(id);
+    if (!task) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Task not found');
+    }
+    if (task.status !== 'running') {
+      throw new McpError(ErrorCode.InvalidRequest, `Task already ${task.status}`);
+    }
+
+    task.status = 'cancelled';
+    task.endTime = new Date();
+    this.controllers.get(id)?.abort();
+    this.emit(task);
+    return task;
+  }
+
+  cancelAll(): void {
+    this.controllers.forEach((_, id) => {
+      if (this.tasks.get(id)?.status === 'running') {
+        this.cancel(id);
+      }
+    });
+  }
+
+  private emit(task: BackgroundTask): void {
+    this.listeners.forEach(listener => listener(task));
+  }
+
+  private pruneFinished(): void {
+    const finished = Array.from(this.tasks.values())
+      .filter(t => t.status !== 'running')
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    while (finished.length > MAX_FINISHED_TASKS) {
+      this.tasks.delete(finished.shift()!.id);
+    }
+  }
+}
+
+/**
+ * Throws if the task was cancelled. Jobs call this between steps so they stop
+ * even when the current step made no network request.
+ */
+export function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Task cancelled');
+  }
+}
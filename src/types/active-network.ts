@@ -68,41 +68,179 @@ export interface SearchParams {
   offset?: number;
 }
 
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface Place {
+  placeGuid?: string;
+  placeName: string;
+  placeUrlAdr?: string;
+  addressLine1Txt: string;
+  addressLine2Txt?: string;
+  cityName: string;
+  stateProvinceCode: string;
+  postalCode: string;
+  countryCode?: string;
+  countryName?: string;
+  latitude?: number;
+  longitude?: number;
+  geoPoint?: GeoPoint;
+  timezone?: string;
+  timezoneAbb?: string;
+  timezoneName?: string;
+}
+
+export interface Organization {
+  organizationGuid?: string;
+  organizationName?: string;
+  organizationDsc?: string;
+  primaryContactName?: string;
+  primaryContactEmailAdr?: string;
+  primaryContactPhone?: string;
+  webUrlAdr?: string;
+  addressLine1Txt?: string;
+  addressCityName?: string;
+  addressStateProvinceCode?: string;
+  addressPostalCd?: string;
+  addressCountryCd?: string;
+}
+
+export interface AssetDescription {
+  description: string;
+  descriptionType: {
+    descriptionTypeName: string;
+    descriptionTypeId: string;
+  };
+}
+
+export interface AssetCategory {
+  sequence?: number;
+  category: {
+    categoryName: string;
+    categoryId: string;
+    categoryTaxonomy: string;
+  };
+}
+
+export interface AssetTopic {
+  sequence?: number;
+  topic: {
+    topicName: string;
+    topicId: string;
+    topicTaxonomy?: string;
+  };
+}
+
+export interface AssetTag {
+  tag: {
+    tagId: string;
+    tagName: string;
+    tagDescription?: string;
+  };
+}
+
+export interface AssetAttribute {
+  attribute: {
+    attributeType: string;
+    attributeValue: string;
+  };
+}
+
+export interface AssetImage {
+  imageUrlAdr: string;
+  imageName?: string;
+  imageType?: string;
+  imageCaptionTxt?: string;
+}
+
+export interface AssetPrice {
+  priceAmt: number | null;
+  minPriceAmt?: number;
+  maxPriceAmt?: number;
+  priceType?: {
+    priceTypeName: string;
+  };
+  priceTypeName?: string;
+  currencyCd?: string;
+  effectiveUntilDate?: string;
+  volumePricingInd?: boolean;
+}
+
+// Child assets are either embedded assets or bare references by GUID
+export interface AssetChild {
+  childAssetGuid?: string;
+  componentTypeName?: string;
+  asset?: Partial<Activity>;
+}
+
+export type SalesStatus = 'registration-open' | 'registration-closed' | 'registration-unavailable' | 'sold-out' | string;
+
 export interface Activity {
   assetGuid: string;
   assetName: string;
-  assetDescriptions?: Array<{
-    description: string;
-    descriptionType: {
-      descriptionTypeName: string;
-      descriptionTypeId: string;
-    };
-  }>;
-  place?: {
-    placeName: string;
-    cityName: string;
-    stateProvinceCode: string;
-    addressLine1Txt: string;
-    postalCode: string;
+  assetStatus?: {
+    assetStatusName: string;
+    isSearchable?: boolean;
   };
+  assetDescriptions?: AssetDescription[];
+  place?: Place;
   activityStartDate?: string;
   activityEndDate?: string;
+  activityRecurrences?: Array<{
+    activityStartDate?: string;
+    activityEndDate?: string;
+    days?: string;
+    frequency?: { frequencyName: string };
+  }>;
+  salesStatus?: SalesStatus;
+  salesStartDate?: string;
+  salesEndDate?: string;
+  regReqMinAge?: number;
+  regReqMaxAge?: number;
+  regReqGenderCd?: string;
+  timezone?: string;
+  timezoneAbb?: string;
+  timezoneName?: string;
   assetLegacyData?: {
     participationCriteriaTxt?: string;
     estParticipantNb?: string;
+    onlineRegistration?: boolean | string;
+    typeName?: string;
+    [key: string]: unknown;
   };
-  assetCategories?: Array<{
-    category: {
-      categoryName: string;
-      categoryId: string;
-      categoryTaxonomy: string;
-    };
-  }>;
+  assetCategories?: AssetCategory[];
+  assetTopics?: AssetTopic[];
+  assetTags?: AssetTag[];
+  assetAttributes?: AssetAttribute[];
+  assetImages?: AssetImage[];
+  logoUrlAdr?: string;
+  assetPrices?: AssetPrice[];
+  assetChildren?: AssetChild[];
+  assetComponents?: AssetChild[];
+  organization?: Organization;
   contactName?: string;
   contactPhone?: string;
   contactEmailAdr?: string;
   registrationUrlAdr?: string;
   homePageUrlAdr?: string;
+  urlAdr?: string;
+  preferredUrlAdr?: string;
+  createdDate?: string;
+  modifiedDate?: string;
+}
+
+export interface ValidationIssue {
+  assetGuid?: string;
+  field: string;
+  problem: 'missing' | 'malformed';
+  detail?: string;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
 }
 
 export interface SearchResponse {
@@ -122,11 +260,69 @@ export interface SearchResponse {
   suggestions?: string[];
   original_query?: string;
   actual_query?: string;
+  // Problems found while normalizing the raw results
+  validation_issues?: ValidationIssue[];
+}
+
+export interface AggregatedSearchResponse extends SearchResponse {
+  pages_fetched: number;
+  duplicates_removed: number;
+  truncated: boolean;
+}
+
+export interface FeeEntry {
+  name: string;
+  amount: number | null;
+  minAmount?: number;
+  maxAmount?: number;
+  currency?: string;
+  effectiveUntil?: string;
+}
+
+export interface ActivityComponent {
+  assetGuid: string;
+  assetName: string;
+  componentType?: string;
+  startDate?: string;
+  endDate?: string;
+  fees?: FeeEntry[];
 }
 
 export interface ActivityDetails extends Activity {
-  assetPrices?: Array<{
-    priceTypeName: string;
-    priceAmt: number;
-  }>;
+  // Normalized views, present only when requested
+  fees?: FeeEntry[];
+  components?: ActivityComponent[];
+  validation_issues?: ValidationIssue[];
+}
+
+export interface UserPreferences {
+  defaultLocation?: string;
+  defaultRadius?: number;
+  favoriteCategories?: string[];
+  excludeChildren?: boolean;
+}
+
+export interface SearchHistoryEntry {
+  query: SearchParams;
+  timestamp: Date;
+  resultCount: number;
+}
+
+export interface SavedSearch {
+  name: string;
+  params: SearchParams;
+  notes?: string;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  lastRunAt?: Date;
+  // assetGuids returned by the previous run, for new-result detection
+  lastRunGuids: string[];
+  runCount: number;
+}
+
+export interface CacheEntry {
+  data: any;
+  timestamp: Date;
+  ttl: number;
 }
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { DiskCache } from '../src/cache.js';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'active-network-cache-'));
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('disk cache', () => {
+  it('leaves files it did not write in a shared directory', async () => {
+    writeFileSync(path.join(dir, 'state.json'), '{"schemaVersion":2}');
+    writeFileSync(path.join(dir, 'notes.json'), 'not json');
+    const damaged = path.join(dir, `${'0'.repeat(40)}.cache.json`);
+    writeFileSync(damaged, '{');
+
+    const writer = new DiskCache(dir);
+    await writer.set('search:yoga', { total_results: 1 }, 60000);
+
+    const reader = new DiskCache(dir);
+    assert.deepEqual((await reader.get('search:yoga'))?.data, { total_results: 1 });
+    assert.ok(existsSync(path.join(dir, 'state.json')));
+    assert.ok(existsSync(path.join(dir, 'notes.json')));
+    assert.ok(!existsSync(damaged));
+    assert.equal(readdirSync(dir).filter(file => file.endsWith('.cache.json')).length, 1);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { ActiveNetworkClient } from '../src/active-network-client.js';
+import { Cassette, createCassette } from '../src/cassette.js';
+import { MOCK_API_KEY, MockAmpServer } from './mock-amp-server.js';
+
+const TEN_K = '8f0b7a2e-1c4d-4a7e-9b1f-2d3e4f5a6b70';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'active-network-cassette-'));
+const cassettePath = path.join(dir, 'traffic.json');
+
+function client(cassette: Cassette, baseUrl?: string): ActiveNetworkClient {
+  return new ActiveNetworkClient(MOCK_API_KEY, {
+    baseUrl,
+    cassette,
+    rateLimit: { perSecond: 100, burst: 100 },
+    retry: { maxRetries: 0 }
+  });
+}
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('cassettes', () => {
+  it('records traffic without the api_key and replays it offline', async () => {
+    const mock = new MockAmpServer();
+    const recorder = new Cassette(cassettePath, 'record');
+    const recording = client(recorder, await mock.start());
+
+    const search = await recording.searchActivities({ query: 'yoga' });
+    const details = await recording.getActivityDetails(TEN_K);
+    const topics = await recording.getTopics({ state: 'CO' });
+    mock.failNext('unavailable');
+    await assert.rejects(recording.searchActivities({ query: 'swim' }), /temporarily unavailable/);
+    await recorder.flush();
+    await mock.close();
+
+    const text = readFileSync(cassettePath, 'utf8');
+    assert.doesNotMatch(text, /api_key/);
+    assert.doesNotMatch(text, new RegExp(MOCK_API_KEY));
+    assert.equal(JSON.parse(text).interactions.length, 4);
+
+    // The mock is gone, so these can only come from the cassette
+    const replayer = createCassette({ file: cassettePath, mode: 'replay' })!;
+    const replaying = client(replayer, 'http://127.0.0.1:9/v2');
+    assert.deepEqual(await replaying.searchActivities({ query: 'yoga' }), search);
+    assert.deepEqual(await replaying.getActivityDetails(TEN_K), details);
+    assert.deepEqual(await replaying.getTopics({ state: 'CO' }), topics);
+    await assert.rejects(replaying.searchActivities({ query: 'swim' }), /temporarily unavailable/);
+    await assert.rejects(replaying.searchActivities({ query: 'never recorded' }), /No recorded response/);
+  });
+
+  it('writes recordings without waiting for shutdown', async () => {
+    const mock = new MockAmpServer();
+    const file = path.join(dir, 'debounced.json');
+    const recording = client(new Cassette(file, 'record'), await mock.start());
+    await recording.searchActivities({ query: 'yoga' });
+    await mock.close();
+
+    const deadline = Date.now() + 5000;
+    while (!existsSync(file) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    assert.equal(JSON.parse(readFileSync(file, 'utf8')).interactions.length, 1);
+  });
+
+  it('rejects unreadable cassettes', () => {
+    assert.throws(
+      () => createCassette({ file: path.join(dir, 'missing.json'), mode: 'replay' }),
+      /Cannot read cassette/
+    );
+    assert.equal(createCassette({ mode: 'replay' }), undefined);
+  });
+});
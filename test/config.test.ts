@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+import { loadConfig, redactConfig } from '../src/config.js';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'active-network-config-'));
+
+function writeConfig(name: string, value: unknown): string {
+  const file = path.join(dir, name);
+  writeFileSync(file, typeof value === 'string' ? value : JSON.stringify(value));
+  return file;
+}
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('config', () => {
+  it('layers defaults, the config file and environment variables', () => {
+    const file = writeConfig('layers.json', {
+      apiKey: 'file-key',
+      defaults: { location: 'Denver,CO,US', radius: 10 },
+      cache: { ttls: { search: 1000 } },
+      historyLimit: 20
+    });
+    const { config, sources } = loadConfig(['--config', file], {
+      ACTIVE_NETWORK_DATA_DIR: dir,
+      DEFAULT_RADIUS: '40'
+    });
+
+    assert.equal(config.defaults.location, 'Denver,CO,US');
+    assert.equal(config.defaults.radius, 40);
+    assert.equal(config.cache.ttls.search, 1000);
+    assert.equal(config.cache.ttls.details, 30 * 60 * 1000);
+    assert.equal(config.cache.dir, path.join(dir, 'cache'));
+    assert.equal(sources['defaults.location'], 'file');
+    assert.equal(sources['defaults.radius'], 'env:DEFAULT_RADIUS');
+    assert.equal(sources.requestTimeoutMs, 'default');
+    assert.equal(redactConfig(config).apiKey, '[REDACTED]');
+  });
+
+  it('reports every invalid setting at once', () => {
+    const file = writeConfig('invalid.json', { cache: { backend: 'redis', ttl: 5 }, historyLimit: -1 });
+    assert.throws(
+      () => loadConfig([], {
+        ACTIVE_NETWORK_CONFIG: file,
+        ACTIVE_NETWORK_REQUEST_TIMEOUT: 'soon',
+        ACTIVE_NETWORK_LOG_LEVEL: 'verbose',
+        ACTIVE_NETWORK_METRICS_PORT: '70000',
+        ACTIVE_NETWORK_CASSETTE_MODE: 'rewind'
+      }),
+      (error: Error) => {
+        assert.match(error.message, /unknown setting 'cache\.ttl'/);
+        assert.match(error.message, /cache\.backend must be one of memory, disk \(got "redis" in /);
+        assert.match(error.message, /historyLimit must be an integer from 1 to 10000/);
+        assert.match(error.message, /requestTimeoutMs must be an integer of at least 1 \(got 'soon' from ACTIVE_NETWORK_REQUEST_TIMEOUT\)/);
+        assert.match(error.message, /logging\.level must be one of debug, info, warn, error, silent/);
+        assert.match(error.message, /metrics\.port must be an integer from 0 to 65535/);
+        assert.match(error.message, /cassette\.mode must be one of record, replay \(got 'rewind' from ACTIVE_NETWORK_CASSETTE_MODE\)/);
+        return true;
+      }
+    );
+    assert.throws(() => loadConfig(['--config', writeConfig('broken.json', '{')]), /is not valid JSON/);
+    assert.throws(
+      () => loadConfig([], { ACTIVE_NETWORK_DATA_DIR: dir, ACTIVE_NETWORK_USER_TOKENS: 'default:0123456789abcdef' }),
+      /reserved user id 'default'/
+    );
+  });
+});
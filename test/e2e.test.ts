@@ -0,0 +1,439 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MOCK_API_KEY, MockAmpServer } from './mock-amp-server.js';
+
+// Compiled alongside this file by tsconfig.test.json
+const SERVER_ENTRY = fileURLToPath(new URL('../src/active-network-server/index.js', import.meta.url));
+
+const TEN_K = '8f0b7a2e-1c4d-4a7e-9b1f-2d3e4f5a6b70';
+const TRAIL_HALF = '3a9c1e52-7b8d-4f60-a1b2-c3d4e5f60718';
+const SWIM = 'c41d2b6e-90aa-4c3b-8e7f-11223344aa55';
+
+const mock = new MockAmpServer();
+const dataDir = mkdtempSync(path.join(tmpdir(), 'active-network-e2e-'));
+let client: Client;
+const updatedUris: string[] = [];
+
+async function callText(name: string, args: Record<string, unknown> = {}): Promise<string> {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as Array<{ type: string; text: string }>;
+  assert.equal(content.type, 'text');
+  return content.text;
+}
+
+async function callJson(name: string, args: Record<string, unknown> = {}): Promise<any> {
+  return JSON.parse(await callText(name, args));
+}
+
+async function readJson(uri: string): Promise<any> {
+  const result = await client.readResource({ uri });
+  return JSON.parse(result.contents[0].text as string);
+}
+
+async function waitFor<T>(probe: () => Promise<T | undefined>, timeoutMs = 10000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = await probe();
+    if (value !== undefined) return value;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error(`Condition not met within ${timeoutMs}ms`);
+}
+
+function apiCalls(): number {
+  return mock.requests.filter(request => request.path === '/v2/search').length;
+}
+
+before(async () => {
+  const baseUrl = await mock.start();
+  client = new Client({ name: 'e2e-test', version: '1.0.0' }, { capabilities: {} });
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, async notification => {
+    updatedUris.push(notification.params.uri);
+  });
+
+  await client.connect(new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_ENTRY],
+    env: {
+      PATH: process.env.PATH || '',
+      HOME: dataDir,
+      ACTIVE_NETWORK_API_KEY: MOCK_API_KEY,
+      ACTIVE_NETWORK_BASE_URL: baseUrl,
+      ACTIVE_NETWORK_STORAGE: 'memory',
+      ACTIVE_NETWORK_DATA_DIR: dataDir,
+      ACTIVE_NETWORK_RATE_PER_SECOND: '100',
+      ACTIVE_NETWORK_RATE_BURST: '100',
+      ACTIVE_NETWORK_MAX_RETRIES: '1',
+      // The stdio client is the 'default' user
+      ACTIVE_NETWORK_ADMIN_USERS: 'default'
+    },
+    // Set E2E_DEBUG=1 to see the server's request logging
+    stderr: process.env.E2E_DEBUG ? 'inherit' : 'ignore'
+  }));
+});
+
+after(async () => {
+  await client?.close();
+  await mock.close();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  mock.reset();
+});
+
+describe('tools', () => {
+  it('lists every tool', async () => {
+    const { tools } = await client.listTools();
+    assert.deepEqual(tools.map(tool => tool.name).sort(), [
+      'advanced_search',
+      'clear_cache',
+      'delete_saved_search',
+      'explore_facets',
+      'get_activity_details',
+      'get_categories',
+      'get_locations',
+      'get_search_history',
+      'get_server_config',
+      'get_topics',
+      'list_saved_searches',
+      'manage_preferences',
+      'manage_tasks',
+      'run_saved_search',
+      'save_search',
+      'search_activities'
+    ]);
+  });
+
+  it('search_activities returns summaries and serves repeats from cache', async () => {
+    const first = await callJson('search_activities', { query: 'marathon', near: 'Boulder, CO' });
+    assert.equal(first.total_results, 1);
+    assert.equal(first.results[0].guid, TRAIL_HALF);
+    assert.equal(first._cached, undefined);
+    assert.equal(mock.requests[0].params.api_key, MOCK_API_KEY);
+
+    const repeat = await callJson('search_activities', { query: 'marathon', near: 'boulder,co' });
+    assert.equal(repeat._cached, true);
+    assert.equal(repeat._stale, false);
+    assert.equal(apiCalls(), 1);
+  });
+
+  it('search_activities fetch_all collects pages of 50', async () => {
+    const result = await callJson('search_activities', { per_page: 2, fetch_all: true, use_cache: false });
+    assert.equal(result.total_results, 4);
+    assert.equal(result.returned, 4);
+    assert.equal(apiCalls(), 1);
+    assert.equal(mock.requests.at(-1)?.params.per_page, '50');
+    // Tool options stay out of the API query
+    assert.equal(mock.requests.at(-1)?.params.use_cache, undefined);
+  });
+
+  it('search_activities renders markdown', async () => {
+    const text = await callText('search_activities', { query: 'yoga', format: 'markdown' });
+    assert.match(text, /\*\*1 of 1 results\*\*/);
+    assert.match(text, /Free Community Yoga in the Park/);
+  });
+
+  it('get_activity_details returns fees and components', async () => {
+    const details = await callJson('get_activity_details', { activityId: TEN_K, include_components: true, format: 'summary' });
+    assert.equal(details.guid, TEN_K);
+    assert.deepEqual(details.fees.map((fee: any) => fee.amount), [45, 55]);
+    assert.equal(details.components[0].assetName, '10K Open');
+  });
+
+  it('get_activity_details reports unknown activities', async () => {
+    await assert.rejects(callText('get_activity_details', { activityId: 'missing' }), /Activity not found/);
+  });
+
+  it('get_categories, get_locations and get_topics read facets', async () => {
+    const categories = await callJson('get_categories');
+    assert.deepEqual(categories.categories[0], { value: 'Event', count: 2 });
+
+    const locations = await callJson('get_locations', { limit: 1 });
+    assert.deepEqual(locations.locations, [{ value: 'Denver', count: 3 }]);
+
+    const topics = await callJson('get_topics', { include_counts: false });
+    assert.deepEqual(topics.topics, ['Running', 'Swimming', 'Yoga']);
+    assert.equal(mock.requests.at(-1)?.params.facets, 'topicName');
+  });
+
+  it('explore_facets buckets months and suggests filters', async () => {
+    const result = await callJson('explore_facets', { facets: ['month', 'topic'], filters: { state: 'CO' } });
+    assert.deepEqual(result.facets.month.map((bucket: any) => bucket.value), ['2030-05', '2030-04', '2030-06']);
+    const running = result.suggestions.find((s: any) => s.facet === 'topic' && s.value === 'Running');
+    assert.equal(running.filters.topic_name, 'Running');
+    assert.equal(running.filters.state, 'CO');
+
+    const narrowed = await callJson('explore_facets', { facets: ['topic'], filters: { topic_name: 'running' } });
+    assert.ok(narrowed.facets.topic.some((bucket: any) => bucket.value === 'Running'));
+    assert.ok(!narrowed.suggestions.some((s: any) => s.value === 'Running'));
+  });
+
+  it('advanced_search applies post filters', async () => {
+    const result = await callJson('advanced_search', {
+      topics: ['Running'],
+      filters: { price_range: { max: 60 } }
+    });
+    assert.deepEqual(result.results.map((r: any) => r.guid), [TEN_K]);
+    assert.ok(result._postFilter);
+
+    // A full page stops the scan, and only a scan that reached the end is exhausted
+    const first = await callJson('advanced_search', { filters: { has_registration: true }, per_page: 1 });
+    assert.equal(first._postFilter.scanned, 1);
+    assert.equal(first._postFilter.exhausted, false);
+    const last = await callJson('advanced_search', { filters: { has_registration: false }, per_page: 1 });
+    assert.equal(last._postFilter.returned, 1);
+    assert.equal(last._postFilter.scanned, 4);
+    assert.equal(last._postFilter.exhausted, true);
+  });
+
+  it('manage_preferences sets, gets and resets', async () => {
+    await callJson('manage_preferences', { action: 'set', preferences: { defaultRadius: 10, favoriteCategories: ['Running'] } });
+    assert.equal((await callJson('manage_preferences', { action: 'get' })).defaultRadius, 10);
+
+    const reset = await callJson('manage_preferences', { action: 'reset' });
+    assert.notEqual(reset.preferences.defaultRadius, 10);
+    await assert.rejects(callText('manage_preferences', { action: 'bogus' }), /Unknown action/);
+  });
+
+  it('manage_tasks runs background jobs', async () => {
+    const crawl = await callJson('manage_tasks', {
+      action: 'start_task',
+      task_type: 'crawl_search',
+      task_config: { search_params: { query: 'denver' }, max_pages: 2 }
+    });
+    const crawled = await waitFor(async () => {
+      const task = await callJson('manage_tasks', { action: 'status', task_id: crawl.task.id });
+      return task.status === 'completed' ? task : undefined;
+    });
+    assert.equal(crawled.result.resultCount, 1);
+
+    const fetch = await callJson('manage_tasks', {
+      action: 'start_task',
+      task_type: 'fetch_details',
+      task_config: { activity_ids: [TEN_K, 'missing'] }
+    });
+    const fetched = await waitFor(async () => {
+      const task = await callJson('manage_tasks', { action: 'status', task_id: fetch.task.id });
+      return task.status === 'completed' ? task : undefined;
+    });
+    assert.equal(fetched.result.details.length, 1);
+    assert.equal(fetched.result.errors[0].activityId, 'missing');
+
+    const list = await callJson('manage_tasks', { action: 'list' });
+    assert.ok(list.backgroundTasks.some((task: any) => task.id === crawl.task.id));
+  });
+
+  it('manage_tasks schedules and cancels monitors', async () => {
+    const scheduled = await callJson('manage_tasks', {
+      action: 'schedule_monitor',
+      monitor_config: { search_params: { query: 'swim' }, check_interval: '1h' }
+    });
+    const monitorId = scheduled.monitor.id;
+
+    const checked = await waitFor(async () => {
+      const task = await callJson('manage_tasks', { action: 'status', task_id: monitorId });
+      return task.runCount > 0 ? task : undefined;
+    });
+    assert.equal(checked.history.length, 1);
+
+    const { resources } = await client.listResources();
+    assert.ok(resources.some(resource => resource.uri === `active://search/${monitorId}`));
+
+    await callJson('manage_tasks', { action: 'cancel', task_id: monitorId });
+    await assert.rejects(callText('manage_tasks', { action: 'status', task_id: monitorId }), /Task not found/);
+  });
+
+  it('saved searches save, list, run and delete', async () => {
+    await callJson('save_search', { name: 'denver-runs', search_params: { query: 'run' }, tags: ['running'] });
+    await assert.rejects(callText('save_search', { name: 'denver-runs', search_params: {} }), /already exists/);
+
+    const listed = await callJson('list_saved_searches', { tag: 'running' });
+    assert.deepEqual(listed.savedSearches.map((s: any) => s.name), ['denver-runs']);
+
+    const first = await callJson('run_saved_search', { name: 'denver-runs' });
+    assert.match(first._note, /First run/);
+    const second = await callJson('run_saved_search', { name: 'denver-runs' });
+    assert.deepEqual(second._newSinceLastRun, []);
+    // Saved-search runs always query the API
+    assert.equal(apiCalls(), 2);
+
+    await callJson('delete_saved_search', { name: 'denver-runs' });
+    await assert.rejects(callText('run_saved_search', { name: 'denver-runs' }), /Saved search not found/);
+  });
+
+  it('get_search_history reports recent searches', async () => {
+    const history = await callJson('get_search_history', { limit: 50 });
+    assert.ok(history.recentSearches.length > 0);
+    assert.ok(history.analytics.totalSearches >= history.recentSearches.length);
+  });
+
+  it('clear_cache clears by tool, pattern and entirely', async () => {
+    await callJson('get_topics');
+    await callJson('get_categories');
+    await callJson('search_activities', { query: 'yoga' });
+
+    const byTool = await callJson('clear_cache', { tool: 'get_topics' });
+    assert.ok(byTool.cleared >= 1);
+    // Other facet tools keep their entries
+    await callJson('clear_cache', { tool: 'explore_facets' });
+    assert.equal((await callJson('get_categories'))._cached, true);
+    const byPattern = await callJson('clear_cache', { pattern: 'search:*yoga*' });
+    assert.equal(byPattern.cleared, 1);
+
+    const stats = await readJson('active://cache-stats');
+    assert.equal(stats.entries > 0, true);
+    await callJson('clear_cache');
+    assert.equal((await readJson('active://cache-stats')).entries, 0);
+
+    await assert.rejects(callText('clear_cache', { tool: 'manage_tasks' }), /tool must be one of/);
+  });
+
+  it('get_server_config shows the effective config without secrets', async () => {
+    const result = await callJson('get_server_config');
+    assert.equal(result.config.apiKey, '[REDACTED]');
+    assert.doesNotMatch(JSON.stringify(result), new RegExp(MOCK_API_KEY));
+    assert.equal(result.config.baseUrl, mock.url);
+    assert.equal(result.config.rateLimit.perSecond, 100);
+    assert.equal(result.sources['rateLimit.perSecond'], 'env:ACTIVE_NETWORK_RATE_PER_SECOND');
+    assert.equal(result.sources.historyLimit, 'default');
+    assert.equal(result.configFile, null);
+  });
+});
+
+describe('resources', () => {
+  it('reads every static resource', async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map(resource => resource.uri);
+    for (const uri of [
+      'active://search-history',
+      'active://preferences',
+      'active://cache-stats',
+      'active://task-status',
+      'active://api-stats',
+      'active://categories',
+      'active://topics',
+      'active://sessions'
+    ]) {
+      assert.ok(uris.includes(uri), `${uri} is listed`);
+      const result = await client.readResource({ uri });
+      assert.equal(result.contents[0].mimeType, 'application/json');
+      JSON.parse(result.contents[0].text as string);
+    }
+
+    assert.equal((await readJson('active://api-stats')).client.baseUrl, mock.url);
+  });
+
+  it('reads templated resources', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map(template => template.uriTemplate).sort(), [
+      'active://activity/{assetGuid}',
+      'active://locations/{state}',
+      'active://search/{savedSearchName}',
+      'active://topics/{category}'
+    ]);
+
+    assert.equal((await readJson(`active://activity/${SWIM}`)).assetName, 'Youth Swim Lessons - Level 2');
+    assert.equal((await readJson('active://topics/Event')).count, 3);
+    assert.equal((await readJson('active://locations/CO')).locations[0].value, 'Denver');
+
+    await callJson('save_search', { name: 'yoga', search_params: { query: 'yoga' } });
+    assert.equal((await readJson('active://search/yoga')).total_results, 1);
+    await assert.rejects(client.readResource({ uri: 'active://search/nope' }), /Saved search not found/);
+    await assert.rejects(client.readResource({ uri: 'active://nothing' }), /Unknown resource/);
+  });
+
+  it('sends updates for subscribed resources', async () => {
+    await client.subscribeResource({ uri: 'active://preferences' });
+    updatedUris.length = 0;
+    await callJson('manage_preferences', { action: 'set', preferences: { defaultRadius: 30 } });
+    await waitFor(async () => updatedUris.includes('active://preferences') || undefined);
+    await client.unsubscribeResource({ uri: 'active://preferences' });
+  });
+});
+
+describe('prompts', () => {
+  it('lists and renders every prompt', async () => {
+    const { prompts } = await client.listPrompts();
+    assert.deepEqual(prompts.map(prompt => prompt.name).sort(), [
+      'compare_activities',
+      'find_activities',
+      'plan_activities',
+      'recommend_activities'
+    ]);
+
+    const cases: Array<[string, Record<string, string>, RegExp]> = [
+      ['find_activities', { description: 'trail running', location: 'Boulder' }, /trail running.*Boulder/s],
+      ['plan_activities', { timeframe: 'May', interests: 'yoga', budget: 'free' }, /May.*yoga.*free/s],
+      ['recommend_activities', { context: 'rainy weekend' }, /rainy weekend/],
+      ['compare_activities', { activity_ids: `${TEN_K}, ${TRAIL_HALF}` }, new RegExp(TRAIL_HALF)]
+    ];
+    for (const [name, args, expected] of cases) {
+      const prompt = await client.getPrompt({ name, arguments: args });
+      assert.match(prompt.messages[0].content.text as string, expected);
+    }
+  });
+
+  it('rejects prompts without required arguments', async () => {
+    await assert.rejects(client.getPrompt({ name: 'find_activities', arguments: {} }), /Description is required/);
+    await assert.rejects(client.getPrompt({ name: 'plan_activities', arguments: { timeframe: 'May' } }), /required/);
+    await assert.rejects(client.getPrompt({ name: 'compare_activities', arguments: {} }), /Activity IDs are required/);
+  });
+});
+
+describe('API failures', () => {
+  it('retries a 503 and then succeeds', async () => {
+    mock.failNext('unavailable');
+    const result = await callJson('search_activities', { query: 'swim', use_cache: false });
+    assert.equal(result.total_results, 1);
+    assert.equal(apiCalls(), 2);
+  });
+
+  it('retries an over-rate-limit 403', async () => {
+    mock.failNext('rate-limit');
+    const result = await callJson('search_activities', { query: 'yoga', use_cache: false });
+    assert.equal(result.total_results, 1);
+    assert.equal((await readJson('active://api-stats')).client.retryCount >= 1, true);
+  });
+
+  it('reports 5xx errors once retries run out', async () => {
+    mock.failNext('bad-gateway', 2);
+    await assert.rejects(callText('search_activities', { query: 'swim', use_cache: false }), /temporarily unavailable/);
+
+    mock.failNext('server-error');
+    await assert.rejects(callText('get_topics', { location: 'Nowhere' }), /Active Network API error \(500\)/);
+  });
+
+  it('reports an invalid API key', async () => {
+    mock.failNext('unauthorized');
+    await assert.rejects(callText('search_activities', { query: 'key', use_cache: false }), /Invalid API key/);
+  });
+
+  it('reports a 414 for oversized queries', async () => {
+    await assert.rejects(
+      callText('search_activities', { query: 'x'.repeat(3000), use_cache: false }),
+      /Request URI too long/
+    );
+  });
+
+  it('counts the failures in active://metrics', async () => {
+    const result = await client.readResource({ uri: 'active://metrics' });
+    assert.match(result.contents[0].mimeType as string, /^text\/plain; version=0\.0\.4/);
+    const text = result.contents[0].text as string;
+
+    assert.match(text, /^active_network_upstream_requests_total\{status="503"\} [1-9]/m);
+    assert.match(text, /^active_network_upstream_requests_total\{status="414"\} [1-9]/m);
+    assert.match(text, /^active_network_upstream_retries_total\{status="403"\} [1-9]/m);
+    assert.match(text, /^active_network_tool_errors_total\{tool="search_activities",code="InternalError"\} [1-9]/m);
+    assert.match(text, /^active_network_tool_duration_seconds_count\{tool="search_activities",outcome="success"\} [1-9]/m);
+    assert.match(text, /^active_network_cache_requests_total\{kind="search",result="hit"\} [1-9]/m);
+    assert.match(text, /^active_network_rate_limit_queue_depth 0$/m);
+  });
+});
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Logger, withRequestContext } from '../src/logger.js';
+
+function capture(level: 'debug' | 'info' = 'info'): { logger: Logger; entries: any[] } {
+  const entries: any[] = [];
+  const logger = new Logger({ level, debugSampleRate: 1, write: line => entries.push(JSON.parse(line)) });
+  return { logger, entries };
+}
+
+describe('logger', () => {
+  it('removes secrets from fields, query strings and registered values', () => {
+    const { logger, entries } = capture();
+    logger.addSecret('s3cr3t-key');
+    logger.warn('Request to /search?api_key=abc123&query=yoga failed', {
+      params: { api_key: 'abc123', query: 'yoga' },
+      headers: { Authorization: 'Bearer xyz' },
+      error: new Error('upstream rejected s3cr3t-key')
+    });
+
+    const text = JSON.stringify(entries);
+    assert.doesNotMatch(text, /abc123|xyz|s3cr3t-key/);
+    assert.equal(entries[0].params.query, 'yoga');
+    assert.equal(entries[0].error.message, 'upstream rejected [REDACTED]');
+  });
+
+  it('tags entries with the request context and honours the level', async () => {
+    const { logger, entries } = capture();
+    await withRequestContext({ tool: 'search_activities' }, async () => {
+      logger.debug('not written');
+      logger.info('written');
+    });
+
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].tool, 'search_activities');
+    assert.match(entries[0].requestId, /^[0-9a-f]{8}$/);
+
+    logger.configure({ level: 'debug' });
+    logger.debug('written once configured');
+    assert.equal(entries.length, 2);
+  });
+});
@@ -0,0 +1,150 @@
+import { readFileSync } from 'node:fs';
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+// Fixtures live in the source tree, two levels up from the compiled file
+const FIXTURE_DIR = fileURLToPath(new URL('../../test/fixtures/', import.meta.url));
+
+export const MOCK_API_KEY = 'test-key';
+
+// AMP answers 414 well before typical server limits
+const MAX_URL_LENGTH = 2048;
+
+export interface ErrorFixture {
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export type ErrorFixtureName = 'rate-limit' | 'unauthorized' | 'uri-too-long' | 'bad-gateway' | 'unavailable' | 'server-error';
+
+export interface RecordedRequest {
+  path: string;
+  params: Record<string, string>;
+}
+
+function loadFixture<T>(name: string): T {
+  return JSON.parse(readFileSync(`${FIXTURE_DIR}${name}.json`, 'utf8'));
+}
+
+/**
+ * Local stand-in for the AMP v2 /search endpoint. Searches, asset lookups
+ * and facet queries are answered from the JSON fixtures; failNext() queues
+ * recorded error responses for the following requests.
+ */
+export class MockAmpServer {
+  readonly requests: RecordedRequest[] = [];
+  private activities: any[] = loadFixture('activities');
+  private facets: Record<string, Array<{ value: string; count: number }>> = loadFixture('facets');
+  private errors: Record<ErrorFixtureName, ErrorFixture> = loadFixture('errors');
+  private queued: ErrorFixtureName[] = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  // Base URL to hand to ActiveNetworkClient, e.g. http://127.0.0.1:41234/v2
+  url = '';
+
+  async start(port = 0): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(port, '127.0.0.1', resolve));
+    const address = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${address.port}/v2`;
+    return this.url;
+  }
+
+  close(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  failNext(fixture: ErrorFixtureName, times = 1): void {
+    for (let i = 0; i < times; i++) {
+      this.queued.push(fixture);
+    }
+  }
+
+  reset(): void {
+    this.queued = [];
+    this.requests.length = 0;
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const params = Object.fromEntries(url.searchParams);
+    this.requests.push({ path: url.pathname, params });
+
+    if ((req.url || '').length > MAX_URL_LENGTH) {
+      return this.sendError(res, 'uri-too-long');
+    }
+    const queued = this.queued.shift();
+    if (queued) {
+      return this.sendError(res, queued);
+    }
+    if (req.method !== 'GET' || url.pathname !== '/v2/search') {
+      return this.send(res, 404, { message: 'Not found' });
+    }
+    if (params.api_key !== MOCK_API_KEY) {
+      return this.sendError(res, 'unauthorized');
+    }
+
+    if (params['asset.assetGuid']) {
+      const activity = this.activities.find(a => a.assetGuid === params['asset.assetGuid']);
+      return this.send(res, 200, {
+        total_results: activity ? 1 : 0,
+        items_per_page: 1,
+        start_index: 0,
+        results: activity ? [activity] : []
+      });
+    }
+
+    const matches = this.search(params);
+    const perPage = Math.max(Number(params.per_page ?? 25), 0);
+    const page = Math.max(Number(params.current_page || 1), 1);
+    const startIndex = (page - 1) * perPage;
+
+    this.send(res, 200, {
+      total_results: matches.length,
+      items_per_page: perPage,
+      start_index: startIndex,
+      results: matches.slice(startIndex, startIndex + perPage),
+      ...(params.facets && { facets: this.facetValues(params.facets.split(',')) })
+    });
+  }
+
+  // A small subset of AMP filtering, enough for tests to tell searches apart
+  private search(params: Record<string, string>): any[] {
+    const query = params.query?.toLowerCase();
+    const city = params.city?.toLowerCase();
+    const topic = params.topic_name?.toLowerCase() || params.topic?.toLowerCase();
+
+    return this.activities.filter(activity => {
+      const text = `${activity.assetName} ${(activity.assetDescriptions || []).map((d: any) => d.description).join(' ')}`;
+      if (query && !text.toLowerCase().includes(query)) return false;
+      if (city && activity.place?.cityName?.toLowerCase() !== city) return false;
+      if (topic && !(activity.assetTopics || []).some((t: any) => t.topic.topicName.toLowerCase() === topic)) return false;
+      return true;
+    });
+  }
+
+  private facetValues(names: string[]) {
+    return Object.fromEntries(names.map(name => [name, { values: this.facets[name] || [] }]));
+  }
+
+  private sendError(res: ServerResponse, name: ErrorFixtureName): void {
+    const fixture = this.errors[name];
+    this.send(res, fixture.status, fixture.body, fixture.headers);
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(text);
+  }
+}
+
+// `npm run mock-api` serves the fixtures for manual runs against the server
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const mock = new MockAmpServer();
+  mock.start(Number(process.env.MOCK_AMP_PORT || 8787)).then(url => {
+    console.error(`Mock AMP API listening at ${url} (api key: ${MOCK_API_KEY})`);
+    console.error(`Start the server with ACTIVE_NETWORK_BASE_URL=${url} ACTIVE_NETWORK_API_KEY=${MOCK_API_KEY}`);
+  });
+}